@@ -0,0 +1,58 @@
+import * as zlib from 'zlib';
+import { AnimationOptions, DisplayFrame } from '../models/types';
+import { PNGEncoder, PNG_SIGNATURE } from './png-encoder';
+
+// Animated PNG: lossless frames, grayscale unless some frame is in color. Viewers without APNG
+// support show the first frame as a still image.
+export class APNGEncoder {
+    static encode(frames: DisplayFrame[], options: AnimationOptions): Buffer {
+        if (frames.length === 0) {
+            throw new Error('No frames to encode');
+        }
+        const { columns, rows } = frames[0];
+        const channels: 1 | 3 = frames.every(frame => frame.channels === 1) ? 1 : 3;
+
+        const control = Buffer.alloc(8);
+        control.writeUInt32BE(frames.length, 0);
+        control.writeUInt32BE(options.loopCount, 4);
+        const chunks = [PNGEncoder.createHeader(columns, rows, channels, 8), PNGEncoder.createChunk('acTL', control)];
+
+        // fcTL and fdAT chunks share one sequence counter
+        let sequence = 0;
+        frames.forEach((frame, index) => {
+            const delay = Math.min(0xFFFF, Math.max(1, Math.round(options.delays[index] ?? options.delays[0] ?? 100)));
+            const frameControl = Buffer.alloc(26);
+            frameControl.writeUInt32BE(sequence++, 0);
+            frameControl.writeUInt32BE(columns, 4);
+            frameControl.writeUInt32BE(rows, 8);
+            // Offsets stay 0; the delay is delay/1000 seconds
+            frameControl.writeUInt16BE(delay, 20);
+            frameControl.writeUInt16BE(1000, 22);
+            frameControl[24] = 0;   // Dispose: none
+            frameControl[25] = 0;   // Blend: source
+            chunks.push(PNGEncoder.createChunk('fcTL', frameControl));
+
+            const samples = channels === 3 && frame.channels === 1 ? APNGEncoder.toRGB(frame.samples) : frame.samples;
+            const data = zlib.deflateSync(PNGEncoder.toScanlines(samples, columns, rows, channels, 8));
+            // The first frame doubles as the still image
+            if (index === 0) {
+                chunks.push(PNGEncoder.createChunk('IDAT', data));
+            } else {
+                const sequenceNumber = Buffer.alloc(4);
+                sequenceNumber.writeUInt32BE(sequence++, 0);
+                chunks.push(PNGEncoder.createChunk('fdAT', Buffer.concat([sequenceNumber, data])));
+            }
+        });
+        chunks.push(PNGEncoder.createChunk('IEND', Buffer.alloc(0)));
+
+        return Buffer.concat([PNG_SIGNATURE, ...chunks]);
+    }
+
+    private static toRGB(gray: Uint8Array): Uint8Array {
+        const rgb = new Uint8Array(gray.length * 3);
+        for (let i = 0; i < gray.length; i++) {
+            rgb[i * 3] = rgb[i * 3 + 1] = rgb[i * 3 + 2] = gray[i];
+        }
+        return rgb;
+    }
+}
@@ -0,0 +1,323 @@
+import { AnimationOptions, DisplayFrame } from '../models/types';
+
+// Color histogram resolution used for quantization: 5 bits per channel
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SHIFT = 8 - HISTOGRAM_BITS;
+const HISTOGRAM_SIZE = 1 << (HISTOGRAM_BITS * 3);
+const MAX_CODE = 4095;
+
+// Box of histogram cells split by median cut, bounds inclusive per channel
+interface ColorBox {
+    cells: number[];
+    min: number[];
+    max: number[];
+    count: number;
+}
+
+// Animated GIF89a encoder with one global palette shared by all frames. Grayscale animations use an
+// exact 256-level gray palette; color animations get a median-cut palette over every frame's colors.
+export class GIFEncoder {
+    static encode(frames: DisplayFrame[], options: AnimationOptions): Buffer {
+        if (frames.length === 0) {
+            throw new Error('No frames to encode');
+        }
+        const { columns, rows } = frames[0];
+        const grayscale = frames.every(frame => frame.channels === 1);
+        const quantizer = grayscale ? null : new PaletteQuantizer(frames);
+        const palette = quantizer ? quantizer.palette : GIFEncoder.grayPalette();
+
+        const output: Buffer[] = [];
+        const screen = Buffer.alloc(13);
+        screen.write('GIF89a', 0, 'latin1');
+        screen.writeUInt16LE(columns, 6);
+        screen.writeUInt16LE(rows, 8);
+        screen[10] = 0xF7;  // Global color table of 256 entries, 8 bits per primary
+        output.push(screen, Buffer.from(palette));
+
+        // NETSCAPE2.0 application extension; its count is the number of repeats after the first play
+        if (options.loopCount !== 1) {
+            const repeats = options.loopCount === 0 ? 0 : options.loopCount - 1;
+            output.push(Buffer.from([
+                0x21, 0xFF, 0x0B,
+                ...Buffer.from('NETSCAPE2.0', 'latin1'),
+                0x03, 0x01, repeats & 0xFF, (repeats >> 8) & 0xFF, 0x00
+            ]));
+        }
+
+        frames.forEach((frame, index) => {
+            // Centiseconds; most viewers replace delays below 2 with a slow default
+            const delay = Math.min(0xFFFF, Math.max(2, Math.round((options.delays[index] ?? options.delays[0] ?? 100) / 10)));
+            output.push(Buffer.from([0x21, 0xF9, 0x04, 0x04, delay & 0xFF, delay >> 8, 0x00, 0x00]));
+
+            const descriptor = Buffer.alloc(10);
+            descriptor[0] = 0x2C;
+            descriptor.writeUInt16LE(columns, 5);
+            descriptor.writeUInt16LE(rows, 7);
+            output.push(descriptor);
+
+            const indices = quantizer ? quantizer.map(frame, !!options.dither) : frame.samples;
+            output.push(Buffer.from([8]), GIFEncoder.compress(indices, 8));
+        });
+
+        output.push(Buffer.from([0x3B]));
+        return Buffer.concat(output);
+    }
+
+    private static grayPalette(): Uint8Array {
+        const palette = new Uint8Array(768);
+        for (let i = 0; i < 256; i++) {
+            palette[i * 3] = palette[i * 3 + 1] = palette[i * 3 + 2] = i;
+        }
+        return palette;
+    }
+
+    // Variable-length LZW of the GIF specification, packed least significant bit first into
+    // data sub-blocks of at most 255 bytes
+    private static compress(indices: Uint8Array, minCodeSize: number): Buffer {
+        const clearCode = 1 << minCodeSize;
+        const endCode = clearCode + 1;
+        const bytes: number[] = [];
+        let bitBuffer = 0;
+        let bitCount = 0;
+        let codeSize = minCodeSize + 1;
+        let nextCode = endCode + 1;
+        const table = new Map<number, number>();
+
+        const emit = (code: number) => {
+            bitBuffer |= code << bitCount;
+            bitCount += codeSize;
+            while (bitCount >= 8) {
+                bytes.push(bitBuffer & 0xFF);
+                bitBuffer >>>= 8;
+                bitCount -= 8;
+            }
+        };
+
+        emit(clearCode);
+        let prefix = indices[0];
+        for (let i = 1; i < indices.length; i++) {
+            const value = indices[i];
+            const key = (prefix << 8) | value;
+            const code = table.get(key);
+            if (code !== undefined) {
+                prefix = code;
+                continue;
+            }
+            emit(prefix);
+            if (nextCode > MAX_CODE) {
+                emit(clearCode);
+                table.clear();
+                codeSize = minCodeSize + 1;
+                nextCode = endCode + 1;
+            } else {
+                if (nextCode >= (1 << codeSize)) {
+                    codeSize++;
+                }
+                table.set(key, nextCode++);
+            }
+            prefix = value;
+        }
+        emit(prefix);
+        emit(endCode);
+        if (bitCount > 0) {
+            bytes.push(bitBuffer & 0xFF);
+        }
+
+        const blocks: number[] = [];
+        for (let offset = 0; offset < bytes.length; offset += 255) {
+            const block = bytes.slice(offset, offset + 255);
+            blocks.push(block.length, ...block);
+        }
+        blocks.push(0);
+        return Buffer.from(blocks);
+    }
+}
+
+// Median-cut palette over the colors of all frames, with a nearest-color cache per histogram cell
+class PaletteQuantizer {
+    readonly palette = new Uint8Array(768);
+    private paletteSize = 0;
+    private nearest = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+
+    constructor(frames: DisplayFrame[]) {
+        const counts = new Uint32Array(HISTOGRAM_SIZE);
+        const sums = new Float64Array(HISTOGRAM_SIZE * 3);
+        for (const frame of frames) {
+            const { samples, channels } = frame;
+            const [greenOffset, blueOffset] = PaletteQuantizer.channelOffsets(frame);
+            for (let i = 0; i < frame.columns * frame.rows * channels; i += channels) {
+                const r = samples[i];
+                const g = samples[i + greenOffset];
+                const b = samples[i + blueOffset];
+                const cell = PaletteQuantizer.cell(r, g, b);
+                counts[cell]++;
+                sums[cell * 3] += r;
+                sums[cell * 3 + 1] += g;
+                sums[cell * 3 + 2] += b;
+            }
+        }
+
+        const cells: number[] = [];
+        for (let cell = 0; cell < HISTOGRAM_SIZE; cell++) {
+            if (counts[cell] > 0) {
+                cells.push(cell);
+            }
+        }
+
+        const boxes = [PaletteQuantizer.createBox(cells, counts)];
+        while (boxes.length < 256) {
+            // Split the box with the widest channel range, weighted by how many pixels it covers
+            let target = -1;
+            let bestScore = 0;
+            boxes.forEach((box, index) => {
+                const range = Math.max(...box.max.map((max, channel) => max - box.min[channel]));
+                const score = range * Math.sqrt(box.count);
+                if (box.cells.length > 1 && score > bestScore) {
+                    bestScore = score;
+                    target = index;
+                }
+            });
+            if (target < 0) {
+                break;
+            }
+            boxes.push(...PaletteQuantizer.splitBox(boxes.splice(target, 1)[0], counts));
+        }
+
+        boxes.forEach((box, index) => {
+            let total = 0;
+            const color = [0, 0, 0];
+            for (const cell of box.cells) {
+                total += counts[cell];
+                for (let channel = 0; channel < 3; channel++) {
+                    color[channel] += sums[cell * 3 + channel];
+                }
+            }
+            for (let channel = 0; channel < 3; channel++) {
+                this.palette[index * 3 + channel] = Math.round(color[channel] / Math.max(total, 1));
+            }
+        });
+        this.paletteSize = Math.max(boxes.length, 1);
+    }
+
+    map(frame: DisplayFrame, dither: boolean): Uint8Array {
+        const { columns, rows, samples, channels } = frame;
+        const [greenOffset, blueOffset] = PaletteQuantizer.channelOffsets(frame);
+        const indices = new Uint8Array(columns * rows);
+        if (!dither) {
+            for (let i = 0, j = 0; i < indices.length; i++, j += channels) {
+                indices[i] = this.lookup(samples[j], samples[j + greenOffset], samples[j + blueOffset]);
+            }
+            return indices;
+        }
+
+        // Floyd-Steinberg: the error of each pixel is spread over its unvisited neighbours.
+        // Two rows of errors with a one-pixel margin on each side.
+        const rowLength = (columns + 2) * 3;
+        const errors = new Float32Array(rowLength * 2);
+        const adjusted = [0, 0, 0];
+        for (let y = 0; y < rows; y++) {
+            const current = (y & 1) * rowLength;
+            const next = ((y + 1) & 1) * rowLength;
+            errors.fill(0, next, next + rowLength);
+            for (let x = 0; x < columns; x++) {
+                const i = y * columns + x;
+                const j = i * channels;
+                adjusted[0] = samples[j];
+                adjusted[1] = samples[j + greenOffset];
+                adjusted[2] = samples[j + blueOffset];
+                for (let channel = 0; channel < 3; channel++) {
+                    const value = adjusted[channel] + errors[current + (x + 1) * 3 + channel];
+                    adjusted[channel] = value < 0 ? 0 : value > 255 ? 255 : value;
+                }
+                const index = this.lookup(adjusted[0], adjusted[1], adjusted[2]);
+                indices[i] = index;
+                for (let channel = 0; channel < 3; channel++) {
+                    const error = adjusted[channel] - this.palette[index * 3 + channel];
+                    errors[current + (x + 2) * 3 + channel] += error * 7 / 16;
+                    errors[next + x * 3 + channel] += error * 3 / 16;
+                    errors[next + (x + 1) * 3 + channel] += error * 5 / 16;
+                    errors[next + (x + 2) * 3 + channel] += error / 16;
+                }
+            }
+        }
+        return indices;
+    }
+
+    private lookup(r: number, g: number, b: number): number {
+        const cell = PaletteQuantizer.cell(r, g, b);
+        if (this.nearest[cell] >= 0) {
+            return this.nearest[cell];
+        }
+        // Nearest palette entry to the cell's center
+        const half = 1 << (HISTOGRAM_SHIFT - 1);
+        const cr = (r >> HISTOGRAM_SHIFT << HISTOGRAM_SHIFT) + half;
+        const cg = (g >> HISTOGRAM_SHIFT << HISTOGRAM_SHIFT) + half;
+        const cb = (b >> HISTOGRAM_SHIFT << HISTOGRAM_SHIFT) + half;
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let index = 0; index < this.paletteSize; index++) {
+            const dr = this.palette[index * 3] - cr;
+            const dg = this.palette[index * 3 + 1] - cg;
+            const db = this.palette[index * 3 + 2] - cb;
+            const distance = dr * dr + dg * dg + db * db;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = index;
+            }
+        }
+        this.nearest[cell] = best;
+        return best;
+    }
+
+    // Grayscale frames read the same sample for all three channels
+    private static channelOffsets(frame: DisplayFrame): [number, number] {
+        return frame.channels === 3 ? [1, 2] : [0, 0];
+    }
+
+    private static cell(r: number, g: number, b: number): number {
+        r = Math.round(r);
+        g = Math.round(g);
+        b = Math.round(b);
+        return ((r >> HISTOGRAM_SHIFT) << (HISTOGRAM_BITS * 2)) | ((g >> HISTOGRAM_SHIFT) << HISTOGRAM_BITS) | (b >> HISTOGRAM_SHIFT);
+    }
+
+    private static channelOf(cell: number, channel: number): number {
+        return (cell >> (HISTOGRAM_BITS * (2 - channel))) & ((1 << HISTOGRAM_BITS) - 1);
+    }
+
+    private static createBox(cells: number[], counts: Uint32Array): ColorBox {
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        let count = 0;
+        for (const cell of cells) {
+            count += counts[cell];
+            for (let channel = 0; channel < 3; channel++) {
+                const value = PaletteQuantizer.channelOf(cell, channel);
+                min[channel] = Math.min(min[channel], value);
+                max[channel] = Math.max(max[channel], value);
+            }
+        }
+        return { cells, min, max, count };
+    }
+
+    // Splits along the widest channel at the pixel-count median
+    private static splitBox(box: ColorBox, counts: Uint32Array): ColorBox[] {
+        const ranges = box.max.map((max, channel) => max - box.min[channel]);
+        const channel = ranges.indexOf(Math.max(...ranges));
+        const sorted = box.cells.slice().sort((a, b) =>
+            PaletteQuantizer.channelOf(a, channel) - PaletteQuantizer.channelOf(b, channel));
+
+        let seen = 0;
+        let split = 1;
+        for (; split < sorted.length - 1; split++) {
+            seen += counts[sorted[split - 1]];
+            if (seen >= box.count / 2) {
+                break;
+            }
+        }
+        return [
+            PaletteQuantizer.createBox(sorted.slice(0, split), counts),
+            PaletteQuantizer.createBox(sorted.slice(split), counts)
+        ];
+    }
+}
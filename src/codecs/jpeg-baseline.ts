@@ -0,0 +1,414 @@
+import { DecodedImage } from '../models/types';
+import {
+    JPEGMarkers,
+    HuffmanTable,
+    JPEGBitReader,
+    readHuffmanTables,
+    readUint16BE,
+    findNextMarker,
+    ZIGZAG,
+    DCT_TABLE
+} from './jpeg-common';
+
+interface FrameComponent {
+    id: number;
+    h: number;
+    v: number;
+    quantizationTableId: number;
+    blocksPerLine: number;       // Blocks covering the component's own samples
+    blocksPerColumn: number;
+    paddedBlocksPerLine: number; // Blocks covering whole MCUs
+    paddedBlocksPerColumn: number;
+    coefficients: Int32Array;    // 64 natural-order coefficients per block
+    dcTable?: HuffmanTable;
+    acTable?: HuffmanTable;
+    pred: number;
+}
+
+interface Frame {
+    precision: number;
+    width: number;
+    height: number;
+    maxH: number;
+    maxV: number;
+    mcusPerLine: number;
+    mcusPerColumn: number;
+    components: FrameComponent[];
+}
+
+export interface JPEGBaselineOptions {
+    // Convert YCbCr to RGB. Defaults to what the JFIF/Adobe markers indicate
+    colorTransform?: boolean;
+    // Used instead of the default (convert) for streams without a JFIF/Adobe marker or R, G, B component ids
+    unmarkedColorTransform?: boolean;
+}
+
+// Decoder for JPEG Baseline (Process 1) and Extended sequential (Process 2 & 4) DCT streams,
+// as used by transfer syntaxes 1.2.840.10008.1.2.4.50 and 1.2.840.10008.1.2.4.51
+export class JPEGBaselineDecoder {
+    private quantizationTables: Int32Array[] = [];
+    private dcTables: HuffmanTable[] = [];
+    private acTables: HuffmanTable[] = [];
+    private resetInterval = 0;
+    private frame: Frame | null = null;
+    private jfif = false;
+    private adobeTransform: number | null = null;
+
+    static decode(data: Uint8Array, options: JPEGBaselineOptions = {}): DecodedImage {
+        return new JPEGBaselineDecoder().decodeStream(data, options);
+    }
+
+    private decodeStream(data: Uint8Array, options: JPEGBaselineOptions): DecodedImage {
+        if (readUint16BE(data, 0) !== JPEGMarkers.SOI) {
+            throw new Error('Invalid JPEG stream: missing SOI marker');
+        }
+
+        let offset = 2;
+        while (offset < data.length) {
+            const marker = readUint16BE(data, offset);
+            offset += 2;
+
+            if (marker === JPEGMarkers.EOI) {
+                break;
+            }
+
+            const length = readUint16BE(data, offset);
+            const segmentEnd = offset + length;
+            const body = offset + 2;
+
+            switch (marker) {
+                case JPEGMarkers.APP0:
+                    // "JFIF\0"
+                    if (data[body] === 0x4A && data[body + 1] === 0x46 && data[body + 2] === 0x49 &&
+                        data[body + 3] === 0x46 && data[body + 4] === 0) {
+                        this.jfif = true;
+                    }
+                    break;
+                case JPEGMarkers.APP14:
+                    // "Adobe" followed by version, flags0, flags1 and the transform byte
+                    if (data[body] === 0x41 && data[body + 1] === 0x64 && data[body + 2] === 0x6F &&
+                        data[body + 3] === 0x62 && data[body + 4] === 0x65) {
+                        this.adobeTransform = data[body + 11];
+                    }
+                    break;
+                case JPEGMarkers.DQT:
+                    this.readQuantizationTables(data, body, segmentEnd);
+                    break;
+                case JPEGMarkers.DHT:
+                    readHuffmanTables(data, body, segmentEnd, this.dcTables, this.acTables);
+                    break;
+                case JPEGMarkers.DRI:
+                    this.resetInterval = readUint16BE(data, body);
+                    break;
+                case JPEGMarkers.SOF0:
+                case JPEGMarkers.SOF1:
+                    this.frame = this.readFrameHeader(data, body);
+                    break;
+                case JPEGMarkers.SOF2:
+                    throw new Error('Progressive JPEG is not supported');
+                case JPEGMarkers.SOF3:
+                    throw new Error('Lossless JPEG stream passed to the baseline decoder');
+                case JPEGMarkers.SOS:
+                    offset = this.decodeScan(data, body);
+                    continue;
+                default:
+                    if (marker >= 0xFFC5 && marker <= 0xFFCF && marker !== 0xFFC8 && marker !== 0xFFCC) {
+                        throw new Error(`Unsupported JPEG process (marker 0x${marker.toString(16)})`);
+                    }
+                    if ((marker & 0xFF00) !== 0xFF00) {
+                        // Lost sync, resume at the next marker
+                        offset = findNextMarker(data, offset - 2);
+                        continue;
+                    }
+                    // APPn, COM, DNL and other segments carry nothing we need
+                    break;
+            }
+
+            offset = segmentEnd;
+        }
+
+        if (!this.frame) {
+            throw new Error('Invalid JPEG stream: no frame header found');
+        }
+
+        return this.buildImage(this.frame, options);
+    }
+
+    private readQuantizationTables(data: Uint8Array, offset: number, end: number): void {
+        while (offset < end) {
+            const precision = data[offset] >> 4;
+            const tableId = data[offset] & 0x0f;
+            offset++;
+
+            const table = new Int32Array(64);
+            for (let i = 0; i < 64; i++) {
+                if (precision === 0) {
+                    table[ZIGZAG[i]] = data[offset++];
+                } else {
+                    table[ZIGZAG[i]] = readUint16BE(data, offset);
+                    offset += 2;
+                }
+            }
+            this.quantizationTables[tableId] = table;
+        }
+    }
+
+    private readFrameHeader(data: Uint8Array, offset: number): Frame {
+        const precision = data[offset];
+        const height = readUint16BE(data, offset + 1);
+        const width = readUint16BE(data, offset + 3);
+        const componentCount = data[offset + 5];
+        offset += 6;
+
+        if (precision !== 8 && precision !== 12) {
+            throw new Error(`Unsupported JPEG sample precision: ${precision}`);
+        }
+        if (width === 0 || height === 0) {
+            throw new Error('Invalid JPEG frame dimensions');
+        }
+
+        const components: FrameComponent[] = [];
+        let maxH = 1;
+        let maxV = 1;
+        for (let i = 0; i < componentCount; i++) {
+            const h = data[offset + 1] >> 4;
+            const v = data[offset + 1] & 0x0f;
+            components.push({
+                id: data[offset],
+                h,
+                v,
+                quantizationTableId: data[offset + 2],
+                blocksPerLine: 0,
+                blocksPerColumn: 0,
+                paddedBlocksPerLine: 0,
+                paddedBlocksPerColumn: 0,
+                coefficients: new Int32Array(0),
+                pred: 0
+            });
+            maxH = Math.max(maxH, h);
+            maxV = Math.max(maxV, v);
+            offset += 3;
+        }
+
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const component of components) {
+            component.blocksPerLine = Math.ceil(Math.ceil(width * component.h / maxH) / 8);
+            component.blocksPerColumn = Math.ceil(Math.ceil(height * component.v / maxV) / 8);
+            component.paddedBlocksPerLine = mcusPerLine * component.h;
+            component.paddedBlocksPerColumn = mcusPerColumn * component.v;
+            component.coefficients = new Int32Array(
+                component.paddedBlocksPerLine * component.paddedBlocksPerColumn * 64
+            );
+        }
+
+        return { precision, width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+    }
+
+    // Decodes one sequential scan and returns the offset of the marker that follows it
+    private decodeScan(data: Uint8Array, offset: number): number {
+        const frame = this.frame;
+        if (!frame) {
+            throw new Error('Invalid JPEG stream: scan before frame header');
+        }
+
+        const scanComponentCount = data[offset++];
+        const scanComponents: FrameComponent[] = [];
+        for (let i = 0; i < scanComponentCount; i++) {
+            const id = data[offset];
+            const tables = data[offset + 1];
+            offset += 2;
+
+            const component = frame.components.find(c => c.id === id);
+            if (!component) {
+                throw new Error(`Invalid JPEG scan: unknown component ${id}`);
+            }
+            component.dcTable = this.dcTables[tables >> 4];
+            component.acTable = this.acTables[tables & 0x0f];
+            if (!component.dcTable || !component.acTable) {
+                throw new Error('Invalid JPEG scan: missing Huffman table');
+            }
+            component.pred = 0;
+            scanComponents.push(component);
+        }
+        // Spectral selection and successive approximation are fixed for sequential scans
+        offset += 3;
+
+        const reader = new JPEGBitReader(data, offset);
+        const singleComponent = scanComponents.length === 1;
+        const totalMcus = singleComponent
+            ? scanComponents[0].blocksPerLine * scanComponents[0].blocksPerColumn
+            : frame.mcusPerLine * frame.mcusPerColumn;
+
+        for (let mcu = 0; mcu < totalMcus; mcu++) {
+            if (this.resetInterval && mcu > 0 && mcu % this.resetInterval === 0) {
+                reader.resetAtRestart();
+                for (const component of scanComponents) {
+                    component.pred = 0;
+                }
+            }
+
+            if (singleComponent) {
+                const component = scanComponents[0];
+                const blockRow = Math.floor(mcu / component.blocksPerLine);
+                const blockCol = mcu % component.blocksPerLine;
+                this.decodeBlock(reader, component, blockRow, blockCol);
+                continue;
+            }
+
+            const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+            const mcuCol = mcu % frame.mcusPerLine;
+            for (const component of scanComponents) {
+                for (let v = 0; v < component.v; v++) {
+                    for (let h = 0; h < component.h; h++) {
+                        this.decodeBlock(reader, component, mcuRow * component.v + v, mcuCol * component.h + h);
+                    }
+                }
+            }
+        }
+
+        return findNextMarker(data, reader.position);
+    }
+
+    private decodeBlock(reader: JPEGBitReader, component: FrameComponent, blockRow: number, blockCol: number): void {
+        const blockOffset = (blockRow * component.paddedBlocksPerLine + blockCol) * 64;
+        const coefficients = component.coefficients;
+
+        const dcLength = reader.decodeHuffman(component.dcTable!);
+        component.pred += reader.receiveExtend(dcLength);
+        coefficients[blockOffset] = component.pred;
+
+        let k = 1;
+        while (k < 64) {
+            const rs = reader.decodeHuffman(component.acTable!);
+            const size = rs & 0x0f;
+            const run = rs >> 4;
+            if (size === 0) {
+                if (run < 15) break; // End of block
+                k += 16;
+                continue;
+            }
+            k += run;
+            if (k > 63) break;
+            coefficients[blockOffset + ZIGZAG[k]] = reader.receiveExtend(size);
+            k++;
+        }
+    }
+
+    private buildImage(frame: Frame, options: JPEGBaselineOptions): DecodedImage {
+        const { width, height, precision } = frame;
+        const componentCount = frame.components.length;
+        const levelShift = 1 << (precision - 1);
+        const maxSample = (1 << precision) - 1;
+
+        // Reconstruct each component plane at its own resolution
+        const planes = frame.components.map(component => {
+            const quantizationTable = this.quantizationTables[component.quantizationTableId];
+            if (!quantizationTable) {
+                throw new Error('Invalid JPEG stream: missing quantization table');
+            }
+            const planeWidth = component.paddedBlocksPerLine * 8;
+            const plane = new Uint16Array(planeWidth * component.paddedBlocksPerColumn * 8);
+            const block = new Float32Array(64);
+            const temp = new Float32Array(64);
+
+            for (let blockRow = 0; blockRow < component.paddedBlocksPerColumn; blockRow++) {
+                for (let blockCol = 0; blockCol < component.paddedBlocksPerLine; blockCol++) {
+                    const blockOffset = (blockRow * component.paddedBlocksPerLine + blockCol) * 64;
+                    for (let i = 0; i < 64; i++) {
+                        block[i] = component.coefficients[blockOffset + i] * quantizationTable[i];
+                    }
+                    this.inverseDCT(block, temp);
+
+                    for (let y = 0; y < 8; y++) {
+                        const rowOffset = (blockRow * 8 + y) * planeWidth + blockCol * 8;
+                        for (let x = 0; x < 8; x++) {
+                            const sample = Math.round(block[y * 8 + x] + levelShift);
+                            plane[rowOffset + x] = sample < 0 ? 0 : sample > maxSample ? maxSample : sample;
+                        }
+                    }
+                }
+            }
+            return { plane, planeWidth, component };
+        });
+
+        // Upsample and interleave
+        const output = new Uint16Array(width * height * componentCount);
+        for (let c = 0; c < componentCount; c++) {
+            const { plane, planeWidth, component } = planes[c];
+            const scaleX = component.h / frame.maxH;
+            const scaleY = component.v / frame.maxV;
+            for (let y = 0; y < height; y++) {
+                const planeRow = Math.floor(y * scaleY) * planeWidth;
+                for (let x = 0; x < width; x++) {
+                    output[(y * width + x) * componentCount + c] = plane[planeRow + Math.floor(x * scaleX)];
+                }
+            }
+        }
+
+        if (componentCount === 3 && this.shouldTransformColor(frame, options)) {
+            this.convertYCbCrToRGB(output, maxSample);
+        }
+
+        return {
+            width,
+            height,
+            components: componentCount,
+            bitsPerSample: precision,
+            data: output
+        };
+    }
+
+    // Separable 2D IDCT; `block` holds dequantized coefficients and receives the samples
+    private inverseDCT(block: Float32Array, temp: Float32Array): void {
+        for (let v = 0; v < 8; v++) {
+            for (let x = 0; x < 8; x++) {
+                let sum = 0;
+                for (let u = 0; u < 8; u++) {
+                    sum += DCT_TABLE[x * 8 + u] * block[v * 8 + u];
+                }
+                temp[v * 8 + x] = sum;
+            }
+        }
+        for (let x = 0; x < 8; x++) {
+            for (let y = 0; y < 8; y++) {
+                let sum = 0;
+                for (let v = 0; v < 8; v++) {
+                    sum += DCT_TABLE[y * 8 + v] * temp[v * 8 + x];
+                }
+                block[y * 8 + x] = sum;
+            }
+        }
+    }
+
+    private shouldTransformColor(frame: Frame, options: JPEGBaselineOptions): boolean {
+        if (options.colorTransform !== undefined) {
+            return options.colorTransform;
+        }
+        if (this.adobeTransform !== null) {
+            return this.adobeTransform !== 0;
+        }
+        if (this.jfif) {
+            return true;
+        }
+        // Components labelled 'R', 'G', 'B' are stored untransformed
+        const ids = frame.components.map(c => c.id);
+        if (ids[0] === 0x52 && ids[1] === 0x47 && ids[2] === 0x42) {
+            return false;
+        }
+        return options.unmarkedColorTransform ?? true;
+    }
+
+    private convertYCbCrToRGB(data: Uint16Array, maxSample: number): void {
+        const center = (maxSample + 1) / 2;
+        const clamp = (value: number) => value < 0 ? 0 : value > maxSample ? maxSample : Math.round(value);
+        for (let i = 0; i < data.length; i += 3) {
+            const y = data[i];
+            const cb = data[i + 1] - center;
+            const cr = data[i + 2] - center;
+            data[i] = clamp(y + 1.402 * cr);
+            data[i + 1] = clamp(y - 0.344136 * cb - 0.714136 * cr);
+            data[i + 2] = clamp(y + 1.772 * cb);
+        }
+    }
+}
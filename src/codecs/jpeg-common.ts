@@ -0,0 +1,193 @@
+// Shared pieces of the JPEG (ITU-T T.81) codecs: markers, coefficient order, Huffman tables and the entropy bit reader
+
+export const JPEGMarkers = {
+    SOF0: 0xFFC0,   // Baseline DCT
+    SOF1: 0xFFC1,   // Extended sequential DCT
+    SOF2: 0xFFC2,   // Progressive DCT
+    SOF3: 0xFFC3,   // Lossless (sequential)
+    DHT: 0xFFC4,
+    SOI: 0xFFD8,
+    EOI: 0xFFD9,
+    SOS: 0xFFDA,
+    DQT: 0xFFDB,
+    DNL: 0xFFDC,
+    DRI: 0xFFDD,
+    APP0: 0xFFE0,
+    APP14: 0xFFEE,
+    COM: 0xFFFE
+};
+
+// Natural-order index of each zig-zag position
+export const ZIGZAG = new Int32Array([
+    0, 1, 8, 16, 9, 2, 3, 10,
+    17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34,
+    27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36,
+    29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46,
+    53, 60, 61, 54, 47, 55, 62, 63
+]);
+
+// DCT basis shared by the forward and inverse transforms: DCT_TABLE[x * 8 + u] = C(u) / 2 * cos((2x + 1)uπ / 16)
+export const DCT_TABLE = (() => {
+    const table = new Float32Array(64);
+    for (let x = 0; x < 8; x++) {
+        for (let u = 0; u < 8; u++) {
+            const cu = u === 0 ? Math.SQRT1_2 : 1;
+            table[x * 8 + u] = cu / 2 * Math.cos((2 * x + 1) * u * Math.PI / 16);
+        }
+    }
+    return table;
+})();
+
+export interface HuffmanTable {
+    maxCode: Int32Array;
+    valPtr: Int32Array;
+    minCode: Int32Array;
+    values: Uint8Array;
+}
+
+// Builds the decoding tables described in T.81 Annex F.2.2.3 from the DHT code counts and symbols
+export function buildHuffmanTable(codeLengths: Uint8Array, values: Uint8Array): HuffmanTable {
+    const maxCode = new Int32Array(18);
+    const valPtr = new Int32Array(17);
+    const minCode = new Int32Array(17);
+
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+        const count = codeLengths[length - 1];
+        valPtr[length] = k;
+        minCode[length] = code;
+        code += count;
+        k += count;
+        maxCode[length] = count ? code - 1 : -1;
+        code <<= 1;
+    }
+    maxCode[17] = 0x7fffffff;
+
+    return { maxCode, valPtr, minCode, values };
+}
+
+// Reads a DHT segment body, returning the tables keyed by class (0 = DC/lossless, 1 = AC) and id
+export function readHuffmanTables(data: Uint8Array, offset: number, end: number,
+    dcTables: HuffmanTable[], acTables: HuffmanTable[]): void {
+    while (offset < end) {
+        const tableClass = data[offset] >> 4;
+        const tableId = data[offset] & 0x0f;
+        offset++;
+
+        const codeLengths = data.subarray(offset, offset + 16);
+        offset += 16;
+
+        let total = 0;
+        for (let i = 0; i < 16; i++) {
+            total += codeLengths[i];
+        }
+        const values = data.slice(offset, offset + total);
+        offset += total;
+
+        const table = buildHuffmanTable(codeLengths, values);
+        if (tableClass === 0) {
+            dcTables[tableId] = table;
+        } else {
+            acTables[tableId] = table;
+        }
+    }
+}
+
+export function readUint16BE(data: Uint8Array, offset: number): number {
+    return (data[offset] << 8) | data[offset + 1];
+}
+
+// Returns the offset of the next marker at or after `offset`, skipping fill bytes and stuffed zeros
+export function findNextMarker(data: Uint8Array, offset: number): number {
+    while (offset < data.length - 1) {
+        if (data[offset] === 0xFF && data[offset + 1] !== 0x00 && data[offset + 1] !== 0xFF) {
+            return offset;
+        }
+        offset++;
+    }
+    return data.length;
+}
+
+export function isRestartMarker(marker: number): boolean {
+    return marker >= 0xFFD0 && marker <= 0xFFD7;
+}
+
+// Bit reader over an entropy-coded segment. Stops at the first marker and feeds zero bits from there on
+export class JPEGBitReader {
+    private bitBuffer = 0;
+    private bitCount = 0;
+
+    constructor(private data: Uint8Array, public position: number) { }
+
+    readBit(): number {
+        if (this.bitCount === 0) {
+            this.bitBuffer = this.nextByte();
+            this.bitCount = 8;
+        }
+        this.bitCount--;
+        return (this.bitBuffer >> this.bitCount) & 1;
+    }
+
+    receive(length: number): number {
+        let value = 0;
+        while (length-- > 0) {
+            value = (value << 1) | this.readBit();
+        }
+        return value;
+    }
+
+    // T.81 F.2.2.1 EXTEND: maps a `length`-bit magnitude category onto a signed difference
+    receiveExtend(length: number): number {
+        if (length === 0) return 0;
+        const value = this.receive(length);
+        if (value >= 1 << (length - 1)) {
+            return value;
+        }
+        return value - (1 << length) + 1;
+    }
+
+    decodeHuffman(table: HuffmanTable): number {
+        let code = this.readBit();
+        let length = 1;
+        while (code > table.maxCode[length]) {
+            code = (code << 1) | this.readBit();
+            length++;
+            if (length > 16) {
+                throw new Error('Invalid JPEG Huffman code');
+            }
+        }
+        return table.values[table.valPtr[length] + code - table.minCode[length]];
+    }
+
+    // Discards buffered bits and consumes a restart marker if one follows
+    resetAtRestart(): void {
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+        const markerOffset = findNextMarker(this.data, this.position);
+        if (markerOffset < this.data.length && isRestartMarker(readUint16BE(this.data, markerOffset))) {
+            this.position = markerOffset + 2;
+        }
+    }
+
+    private nextByte(): number {
+        if (this.position >= this.data.length) {
+            return 0;
+        }
+        const value = this.data[this.position];
+        if (value === 0xFF) {
+            const next = this.data[this.position + 1];
+            if (next === 0x00) {
+                this.position += 2;
+                return 0xFF;
+            }
+            // A marker ends the segment; leave it for the caller
+            return 0;
+        }
+        this.position++;
+        return value;
+    }
+}
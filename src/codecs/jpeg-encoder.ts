@@ -0,0 +1,390 @@
+import { JPEGMarkers, ZIGZAG, DCT_TABLE } from './jpeg-common';
+
+// Example quantization tables of ITU-T T.81 Annex K.1, in natural order
+const LUMINANCE_QUANTIZATION = [
+    16, 11, 10, 16, 24, 40, 51, 61,
+    12, 12, 14, 19, 26, 58, 60, 55,
+    14, 13, 16, 24, 40, 57, 69, 56,
+    14, 17, 22, 29, 51, 87, 80, 62,
+    18, 22, 37, 56, 68, 109, 103, 77,
+    24, 35, 55, 64, 81, 104, 113, 92,
+    49, 64, 78, 87, 103, 121, 120, 101,
+    72, 92, 95, 98, 112, 100, 103, 99
+];
+
+const CHROMINANCE_QUANTIZATION = [
+    17, 18, 24, 47, 99, 99, 99, 99,
+    18, 21, 26, 66, 99, 99, 99, 99,
+    24, 26, 56, 99, 99, 99, 99, 99,
+    47, 66, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99,
+    99, 99, 99, 99, 99, 99, 99, 99
+];
+
+// Typical Huffman tables of Annex K.3: code counts per length (1-16 bits) and symbols
+interface HuffmanSpec {
+    counts: number[];
+    symbols: number[];
+}
+
+const LUMINANCE_DC: HuffmanSpec = {
+    counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+    symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+};
+
+const CHROMINANCE_DC: HuffmanSpec = {
+    counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+    symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+};
+
+const LUMINANCE_AC: HuffmanSpec = {
+    counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+    symbols: [
+        0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+        0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+        0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+        0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+        0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+        0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+        0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+        0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+        0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+        0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+        0xf9, 0xfa
+    ]
+};
+
+const CHROMINANCE_AC: HuffmanSpec = {
+    counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+    symbols: [
+        0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+        0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+        0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+        0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+        0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+        0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+        0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+        0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+        0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+        0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+        0xf9, 0xfa
+    ]
+};
+
+// Code and code length per symbol
+interface HuffmanCodes {
+    codes: Uint16Array;
+    lengths: Uint8Array;
+}
+
+// Collects entropy-coded bits, stuffing a zero byte after every 0xFF
+class BitWriter {
+    private bytes = new Uint8Array(65536);
+    private length = 0;
+    private buffer = 0;
+    private bitCount = 0;
+
+    write(value: number, bits: number): void {
+        for (let i = bits - 1; i >= 0; i--) {
+            this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+            if (++this.bitCount === 8) {
+                this.pushByte(this.buffer);
+                if (this.buffer === 0xFF) {
+                    this.pushByte(0);
+                }
+                this.buffer = 0;
+                this.bitCount = 0;
+            }
+        }
+    }
+
+    // Pads the last byte with 1-bits
+    finish(): Uint8Array {
+        if (this.bitCount > 0) {
+            this.write((1 << (8 - this.bitCount)) - 1, 8 - this.bitCount);
+        }
+        return this.bytes.subarray(0, this.length);
+    }
+
+    private pushByte(value: number): void {
+        if (this.length === this.bytes.length) {
+            const grown = new Uint8Array(this.bytes.length * 2);
+            grown.set(this.bytes);
+            this.bytes = grown;
+        }
+        this.bytes[this.length++] = value;
+    }
+}
+
+interface ScanComponent {
+    blocksH: number;        // Blocks per MCU, horizontally and vertically
+    blocksV: number;
+    quantization: Int32Array;
+    dc: HuffmanCodes;
+    ac: HuffmanCodes;
+    pred: number;
+    sample: (x: number, y: number) => number;   // Level-shifted sample at component coordinates
+}
+
+// Baseline (Process 1) JFIF encoder for 8-bit grayscale or RGB samples; color is stored as YCbCr 4:2:0
+export class JPEGEncoder {
+    static encode(samples: Uint8Array, width: number, height: number, channels: 1 | 3, quality: number): Buffer {
+        const luminanceTable = JPEGEncoder.scaleQuantization(LUMINANCE_QUANTIZATION, quality);
+        const chrominanceTable = JPEGEncoder.scaleQuantization(CHROMINANCE_QUANTIZATION, quality);
+        const luminanceDC = JPEGEncoder.buildCodes(LUMINANCE_DC);
+        const luminanceAC = JPEGEncoder.buildCodes(LUMINANCE_AC);
+
+        const components: ScanComponent[] = [];
+        if (channels === 1) {
+            components.push({
+                blocksH: 1, blocksV: 1, quantization: luminanceTable, dc: luminanceDC, ac: luminanceAC, pred: 0,
+                sample: JPEGEncoder.sampler(samples, width, height)
+            });
+        } else {
+            const [y, cb, cr] = JPEGEncoder.toYCbCr(samples, width * height);
+            const chromaWidth = Math.ceil(width / 2);
+            const chromaHeight = Math.ceil(height / 2);
+            const chromaDC = JPEGEncoder.buildCodes(CHROMINANCE_DC);
+            const chromaAC = JPEGEncoder.buildCodes(CHROMINANCE_AC);
+            components.push(
+                {
+                    blocksH: 2, blocksV: 2, quantization: luminanceTable, dc: luminanceDC, ac: luminanceAC, pred: 0,
+                    sample: JPEGEncoder.sampler(y, width, height)
+                },
+                {
+                    blocksH: 1, blocksV: 1, quantization: chrominanceTable, dc: chromaDC, ac: chromaAC, pred: 0,
+                    sample: JPEGEncoder.sampler(JPEGEncoder.subsample(cb, width, height), chromaWidth, chromaHeight)
+                },
+                {
+                    blocksH: 1, blocksV: 1, quantization: chrominanceTable, dc: chromaDC, ac: chromaAC, pred: 0,
+                    sample: JPEGEncoder.sampler(JPEGEncoder.subsample(cr, width, height), chromaWidth, chromaHeight)
+                }
+            );
+        }
+
+        const segments: Buffer[] = [
+            Buffer.from([0xFF, 0xD8]),
+            JPEGEncoder.segment(JPEGMarkers.APP0, [
+                0x4A, 0x46, 0x49, 0x46, 0x00,   // "JFIF\0"
+                1, 1,                           // Version 1.01
+                0, 0, 1, 0, 1,                  // No units, 1:1 aspect ratio
+                0, 0                            // No thumbnail
+            ]),
+            JPEGEncoder.segment(JPEGMarkers.DQT, [
+                ...JPEGEncoder.quantizationSegment(0, luminanceTable),
+                ...(channels === 3 ? JPEGEncoder.quantizationSegment(1, chrominanceTable) : [])
+            ]),
+            JPEGEncoder.segment(JPEGMarkers.SOF0, [
+                8, height >> 8, height & 0xFF, width >> 8, width & 0xFF, channels,
+                ...(channels === 1
+                    ? [1, 0x11, 0]
+                    : [1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1])
+            ]),
+            JPEGEncoder.segment(JPEGMarkers.DHT, [
+                ...JPEGEncoder.huffmanSegment(0x00, LUMINANCE_DC),
+                ...JPEGEncoder.huffmanSegment(0x10, LUMINANCE_AC),
+                ...(channels === 3
+                    ? [...JPEGEncoder.huffmanSegment(0x01, CHROMINANCE_DC), ...JPEGEncoder.huffmanSegment(0x11, CHROMINANCE_AC)]
+                    : [])
+            ]),
+            JPEGEncoder.segment(JPEGMarkers.SOS, [
+                channels,
+                ...(channels === 1 ? [1, 0x00] : [1, 0x00, 2, 0x11, 3, 0x11]),
+                0, 63, 0    // Spectral selection and successive approximation of a sequential scan
+            ]),
+            Buffer.from(JPEGEncoder.encodeScan(components, width, height)),
+            Buffer.from([0xFF, 0xD9])
+        ];
+        return Buffer.concat(segments);
+    }
+
+    // IJG quality scaling: 50 keeps the example tables, 100 makes every entry 1
+    private static scaleQuantization(table: number[], quality: number): Int32Array {
+        const clamped = Math.max(1, Math.min(100, Math.round(quality)));
+        const scale = clamped < 50 ? 5000 / clamped : 200 - clamped * 2;
+        return Int32Array.from(table, value => Math.max(1, Math.min(255, Math.floor((value * scale + 50) / 100))));
+    }
+
+    // Code assignment of Annex C: codes of each length follow the previous length's, shifted left
+    private static buildCodes(spec: HuffmanSpec): HuffmanCodes {
+        const codes = new Uint16Array(256);
+        const lengths = new Uint8Array(256);
+        let code = 0;
+        let k = 0;
+        for (let length = 1; length <= 16; length++) {
+            for (let i = 0; i < spec.counts[length - 1]; i++) {
+                codes[spec.symbols[k]] = code++;
+                lengths[spec.symbols[k]] = length;
+                k++;
+            }
+            code <<= 1;
+        }
+        return { codes, lengths };
+    }
+
+    private static segment(marker: number, body: number[]): Buffer {
+        const length = body.length + 2;
+        return Buffer.from([marker >> 8, marker & 0xFF, length >> 8, length & 0xFF, ...body]);
+    }
+
+    private static quantizationSegment(id: number, table: Int32Array): number[] {
+        const values = [id];
+        for (let i = 0; i < 64; i++) {
+            values.push(table[ZIGZAG[i]]);
+        }
+        return values;
+    }
+
+    private static huffmanSegment(classAndId: number, spec: HuffmanSpec): number[] {
+        return [classAndId, ...spec.counts, ...spec.symbols];
+    }
+
+    private static toYCbCr(rgb: Uint8Array, pixelCount: number): Float32Array[] {
+        const y = new Float32Array(pixelCount);
+        const cb = new Float32Array(pixelCount);
+        const cr = new Float32Array(pixelCount);
+        for (let i = 0; i < pixelCount; i++) {
+            const r = rgb[i * 3];
+            const g = rgb[i * 3 + 1];
+            const b = rgb[i * 3 + 2];
+            y[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+            cb[i] = -0.168736 * r - 0.331264 * g + 0.5 * b + 128;
+            cr[i] = 0.5 * r - 0.418688 * g - 0.081312 * b + 128;
+        }
+        return [y, cb, cr];
+    }
+
+    // Averages 2x2 neighbourhoods; an odd last row or column averages what is there
+    private static subsample(plane: Float32Array, width: number, height: number): Float32Array {
+        const outWidth = Math.ceil(width / 2);
+        const outHeight = Math.ceil(height / 2);
+        const output = new Float32Array(outWidth * outHeight);
+        for (let y = 0; y < outHeight; y++) {
+            for (let x = 0; x < outWidth; x++) {
+                let sum = 0;
+                let count = 0;
+                for (let dy = 0; dy < 2 && y * 2 + dy < height; dy++) {
+                    for (let dx = 0; dx < 2 && x * 2 + dx < width; dx++) {
+                        sum += plane[(y * 2 + dy) * width + x * 2 + dx];
+                        count++;
+                    }
+                }
+                output[y * outWidth + x] = sum / count;
+            }
+        }
+        return output;
+    }
+
+    // Blocks past the image edge repeat the last row and column
+    private static sampler(plane: ArrayLike<number>, width: number, height: number): (x: number, y: number) => number {
+        return (x, y) => plane[Math.min(y, height - 1) * width + Math.min(x, width - 1)] - 128;
+    }
+
+    private static encodeScan(components: ScanComponent[], width: number, height: number): Uint8Array {
+        const maxH = Math.max(...components.map(component => component.blocksH));
+        const maxV = Math.max(...components.map(component => component.blocksV));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+        const writer = new BitWriter();
+        const block = new Float32Array(64);
+        const coefficients = new Int32Array(64);
+
+        for (let mcuY = 0; mcuY < mcusPerColumn; mcuY++) {
+            for (let mcuX = 0; mcuX < mcusPerLine; mcuX++) {
+                for (const component of components) {
+                    for (let v = 0; v < component.blocksV; v++) {
+                        for (let h = 0; h < component.blocksH; h++) {
+                            const blockX = (mcuX * component.blocksH + h) * 8;
+                            const blockY = (mcuY * component.blocksV + v) * 8;
+                            for (let y = 0; y < 8; y++) {
+                                for (let x = 0; x < 8; x++) {
+                                    block[y * 8 + x] = component.sample(blockX + x, blockY + y);
+                                }
+                            }
+                            JPEGEncoder.forwardDCT(block, component.quantization, coefficients);
+                            JPEGEncoder.encodeBlock(writer, coefficients, component);
+                        }
+                    }
+                }
+            }
+        }
+        return writer.finish();
+    }
+
+    // Separable 8x8 DCT-II followed by quantization, producing natural-order coefficients
+    private static forwardDCT(block: Float32Array, quantization: Int32Array, output: Int32Array): void {
+        const rows = new Float32Array(64);
+        for (let y = 0; y < 8; y++) {
+            for (let u = 0; u < 8; u++) {
+                let sum = 0;
+                for (let x = 0; x < 8; x++) {
+                    sum += block[y * 8 + x] * DCT_TABLE[x * 8 + u];
+                }
+                rows[y * 8 + u] = sum;
+            }
+        }
+        for (let v = 0; v < 8; v++) {
+            for (let u = 0; u < 8; u++) {
+                let sum = 0;
+                for (let y = 0; y < 8; y++) {
+                    sum += rows[y * 8 + u] * DCT_TABLE[y * 8 + v];
+                }
+                output[v * 8 + u] = Math.round(sum / quantization[v * 8 + u]);
+            }
+        }
+    }
+
+    // DC difference and run-length coded AC coefficients of F.1.2
+    private static encodeBlock(writer: BitWriter, coefficients: Int32Array, component: ScanComponent): void {
+        const dc = coefficients[0];
+        const diff = dc - component.pred;
+        component.pred = dc;
+        const dcSize = JPEGEncoder.magnitudeCategory(diff);
+        writer.write(component.dc.codes[dcSize], component.dc.lengths[dcSize]);
+        if (dcSize > 0) {
+            writer.write(JPEGEncoder.magnitudeBits(diff, dcSize), dcSize);
+        }
+
+        const { codes, lengths } = component.ac;
+        let run = 0;
+        for (let k = 1; k < 64; k++) {
+            const value = coefficients[ZIGZAG[k]];
+            if (value === 0) {
+                run++;
+                continue;
+            }
+            while (run > 15) {
+                // ZRL: sixteen zeros
+                writer.write(codes[0xF0], lengths[0xF0]);
+                run -= 16;
+            }
+            const size = JPEGEncoder.magnitudeCategory(value);
+            const symbol = (run << 4) | size;
+            writer.write(codes[symbol], lengths[symbol]);
+            writer.write(JPEGEncoder.magnitudeBits(value, size), size);
+            run = 0;
+        }
+        if (run > 0) {
+            // EOB
+            writer.write(codes[0x00], lengths[0x00]);
+        }
+    }
+
+    private static magnitudeCategory(value: number): number {
+        let magnitude = Math.abs(value);
+        let size = 0;
+        while (magnitude > 0) {
+            magnitude >>= 1;
+            size++;
+        }
+        return size;
+    }
+
+    // Negative values are sent as their one's complement in `size` bits
+    private static magnitudeBits(value: number, size: number): number {
+        return value < 0 ? value + (1 << size) - 1 : value;
+    }
+}
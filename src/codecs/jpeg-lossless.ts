@@ -0,0 +1,213 @@
+import { DecodedImage } from '../models/types';
+import {
+    JPEGMarkers,
+    HuffmanTable,
+    JPEGBitReader,
+    readHuffmanTables,
+    readUint16BE,
+    findNextMarker
+} from './jpeg-common';
+
+interface LosslessComponent {
+    id: number;
+    table?: HuffmanTable;
+}
+
+interface LosslessFrame {
+    precision: number;
+    width: number;
+    height: number;
+    components: LosslessComponent[];
+}
+
+// Decoder for JPEG Lossless, Non-Hierarchical (Process 14) streams, covering transfer syntaxes
+// 1.2.840.10008.1.2.4.57 (any predictor) and 1.2.840.10008.1.2.4.70 (First-Order Prediction, SV1)
+export class JPEGLosslessDecoder {
+    private tables: HuffmanTable[] = [];
+    private resetInterval = 0;
+    private frame: LosslessFrame | null = null;
+    private output: Uint16Array | null = null;
+
+    static decode(data: Uint8Array): DecodedImage {
+        return new JPEGLosslessDecoder().decodeStream(data);
+    }
+
+    private decodeStream(data: Uint8Array): DecodedImage {
+        if (readUint16BE(data, 0) !== JPEGMarkers.SOI) {
+            throw new Error('Invalid JPEG stream: missing SOI marker');
+        }
+
+        let offset = 2;
+        while (offset < data.length) {
+            const marker = readUint16BE(data, offset);
+            offset += 2;
+
+            if (marker === JPEGMarkers.EOI) {
+                break;
+            }
+
+            const length = readUint16BE(data, offset);
+            const segmentEnd = offset + length;
+            const body = offset + 2;
+
+            switch (marker) {
+                case JPEGMarkers.DHT:
+                    // Lossless streams only use the DC-class tables
+                    readHuffmanTables(data, body, segmentEnd, this.tables, []);
+                    break;
+                case JPEGMarkers.DRI:
+                    this.resetInterval = readUint16BE(data, body);
+                    break;
+                case JPEGMarkers.SOF3:
+                    this.frame = this.readFrameHeader(data, body);
+                    break;
+                case JPEGMarkers.SOS:
+                    offset = this.decodeScan(data, body);
+                    continue;
+                default:
+                    if (marker >= 0xFFC0 && marker <= 0xFFCF && marker !== JPEGMarkers.DHT &&
+                        marker !== 0xFFC8 && marker !== 0xFFCC) {
+                        throw new Error(`Not a lossless JPEG stream (marker 0x${marker.toString(16)})`);
+                    }
+                    if ((marker & 0xFF00) !== 0xFF00) {
+                        offset = findNextMarker(data, offset - 2);
+                        continue;
+                    }
+                    break;
+            }
+
+            offset = segmentEnd;
+        }
+
+        if (!this.frame || !this.output) {
+            throw new Error('Invalid JPEG Lossless stream: no image data found');
+        }
+
+        return {
+            width: this.frame.width,
+            height: this.frame.height,
+            components: this.frame.components.length,
+            bitsPerSample: this.frame.precision,
+            data: this.output
+        };
+    }
+
+    private readFrameHeader(data: Uint8Array, offset: number): LosslessFrame {
+        const precision = data[offset];
+        const height = readUint16BE(data, offset + 1);
+        const width = readUint16BE(data, offset + 3);
+        const componentCount = data[offset + 5];
+        offset += 6;
+
+        if (precision < 2 || precision > 16) {
+            throw new Error(`Unsupported JPEG Lossless sample precision: ${precision}`);
+        }
+        if (width === 0 || height === 0) {
+            throw new Error('Invalid JPEG frame dimensions');
+        }
+
+        const components: LosslessComponent[] = [];
+        for (let i = 0; i < componentCount; i++) {
+            if (data[offset + 1] !== 0x11) {
+                throw new Error('Subsampled JPEG Lossless components are not supported');
+            }
+            components.push({ id: data[offset] });
+            offset += 3;
+        }
+
+        this.output = new Uint16Array(width * height * componentCount);
+        return { precision, width, height, components };
+    }
+
+    // Decodes one lossless scan (T.81 H.1) and returns the offset of the marker that follows it
+    private decodeScan(data: Uint8Array, offset: number): number {
+        const frame = this.frame;
+        const output = this.output;
+        if (!frame || !output) {
+            throw new Error('Invalid JPEG stream: scan before frame header');
+        }
+
+        const scanComponentCount = data[offset++];
+        const componentIndices: number[] = [];
+        for (let i = 0; i < scanComponentCount; i++) {
+            const id = data[offset];
+            const tableId = data[offset + 1] >> 4;
+            offset += 2;
+
+            const index = frame.components.findIndex(c => c.id === id);
+            if (index < 0) {
+                throw new Error(`Invalid JPEG scan: unknown component ${id}`);
+            }
+            frame.components[index].table = this.tables[tableId];
+            if (!frame.components[index].table) {
+                throw new Error('Invalid JPEG scan: missing Huffman table');
+            }
+            componentIndices.push(index);
+        }
+        const predictor = data[offset];
+        const pointTransform = data[offset + 2] & 0x0f;
+        offset += 3;
+
+        if (predictor < 1 || predictor > 7) {
+            throw new Error(`Unsupported JPEG Lossless predictor: ${predictor}`);
+        }
+
+        const { width, height } = frame;
+        const stride = frame.components.length;
+        const mask = 0xFFFF;
+        const initialPrediction = 1 << (frame.precision - pointTransform - 1);
+        const reader = new JPEGBitReader(data, offset);
+
+        // Predictions work on the point-transformed values; keep them separate from the output
+        const samples = new Int32Array(width * height * stride);
+
+        let mcu = 0;
+        let restartRow = 0; // First row of the current restart interval
+        let restartCol = 0;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++, mcu++) {
+                if (this.resetInterval && mcu > 0 && mcu % this.resetInterval === 0) {
+                    reader.resetAtRestart();
+                    restartRow = y;
+                    restartCol = x;
+                }
+                const firstLine = y === restartRow;
+
+                for (const c of componentIndices) {
+                    const table = frame.components[c].table!;
+                    const category = reader.decodeHuffman(table);
+                    const diff = category === 16 ? 32768 : reader.receiveExtend(category);
+
+                    const index = (y * width + x) * stride + c;
+                    let prediction: number;
+                    if (firstLine && x === restartCol) {
+                        prediction = initialPrediction;
+                    } else if (firstLine) {
+                        prediction = samples[index - stride];
+                    } else if (x === 0) {
+                        prediction = samples[index - width * stride];
+                    } else {
+                        const ra = samples[index - stride];
+                        const rb = samples[index - width * stride];
+                        const rc = samples[index - width * stride - stride];
+                        switch (predictor) {
+                            case 1: prediction = ra; break;
+                            case 2: prediction = rb; break;
+                            case 3: prediction = rc; break;
+                            case 4: prediction = ra + rb - rc; break;
+                            case 5: prediction = ra + ((rb - rc) >> 1); break;
+                            case 6: prediction = rb + ((ra - rc) >> 1); break;
+                            default: prediction = (ra + rb) >> 1; break;
+                        }
+                    }
+
+                    const value = (prediction + diff) & mask;
+                    samples[index] = value;
+                    output[index] = (value << pointTransform) & mask;
+                }
+            }
+        }
+
+        return findNextMarker(data, reader.position);
+    }
+}
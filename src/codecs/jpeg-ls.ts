@@ -0,0 +1,650 @@
+import { DecodedImage } from '../models/types';
+import { readUint16BE } from './jpeg-common';
+
+const JPEGLSMarkers = {
+    SOI: 0xFFD8,
+    EOI: 0xFFD9,
+    SOS: 0xFFDA,
+    DRI: 0xFFDD,
+    SOF55: 0xFFF7,  // JPEG-LS frame header
+    LSE: 0xFFF8     // JPEG-LS preset parameters
+};
+
+// Run-length order table (T.87 A.7.1.2)
+const J = [0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+const REGULAR_CONTEXTS = 365;
+const MIN_C = -128;
+const MAX_C = 127;
+
+interface LSFrame {
+    precision: number;
+    width: number;
+    height: number;
+    componentIds: number[];
+}
+
+interface PresetParameters {
+    maxVal: number;
+    t1: number;
+    t2: number;
+    t3: number;
+    reset: number;
+}
+
+// Per-scan coding parameters and adaptive context state
+interface ScanState {
+    near: number;
+    maxVal: number;
+    range: number;
+    qbpp: number;
+    limit: number;
+    t1: number;
+    t2: number;
+    t3: number;
+    reset: number;
+    a: Int32Array;
+    b: Int32Array;
+    c: Int32Array;
+    n: Int32Array;
+    runA: Int32Array;  // Run interruption contexts, indexed by RItype
+    runN: Int32Array;
+    runNn: Int32Array;
+}
+
+// Bit reader for JPEG-LS entropy data: a 0xFF byte is followed by a byte carrying only 7 data bits
+class JPEGLSBitReader {
+    private bitBuffer = 0;
+    private bitCount = 0;
+    private afterFF = false;
+
+    constructor(private data: Uint8Array, public position: number) { }
+
+    readBit(): number {
+        if (this.bitCount === 0) {
+            this.fill();
+        }
+        this.bitCount--;
+        return (this.bitBuffer >> this.bitCount) & 1;
+    }
+
+    read(length: number): number {
+        let value = 0;
+        while (length-- > 0) {
+            value = (value << 1) | this.readBit();
+        }
+        return value;
+    }
+
+    // Limited-length Golomb code (T.87 A.5.3)
+    readGolomb(k: number, limit: number, qbpp: number): number {
+        let highBits = 0;
+        while (this.readBit() === 0) {
+            highBits++;
+            if (highBits > limit) {
+                throw new Error('Invalid JPEG-LS Golomb code');
+            }
+        }
+        if (highBits >= limit - (qbpp + 1)) {
+            return this.read(qbpp) + 1;
+        }
+        return k === 0 ? highBits : (highBits << k) + this.read(k);
+    }
+
+    resetAtRestart(): void {
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+        this.afterFF = false;
+        const markerOffset = findNextLSMarker(this.data, this.position);
+        const marker = readUint16BE(this.data, markerOffset);
+        if (marker >= 0xFFD0 && marker <= 0xFFD7) {
+            this.position = markerOffset + 2;
+        }
+    }
+
+    private fill(): void {
+        if (this.position >= this.data.length) {
+            this.bitBuffer = 0;
+            this.bitCount = 8;
+            return;
+        }
+
+        const value = this.data[this.position];
+        if (this.afterFF) {
+            this.bitBuffer = value & 0x7F;
+            this.bitCount = 7;
+            this.afterFF = false;
+            this.position++;
+            return;
+        }
+        if (value === 0xFF && this.data[this.position + 1] >= 0x80) {
+            // A marker ends the segment; leave it for the caller
+            this.bitBuffer = 0;
+            this.bitCount = 8;
+            return;
+        }
+
+        this.bitBuffer = value;
+        this.bitCount = 8;
+        this.afterFF = value === 0xFF;
+        this.position++;
+    }
+}
+
+// In JPEG-LS data a marker is 0xFF followed by a byte with its high bit set
+function findNextLSMarker(data: Uint8Array, offset: number): number {
+    while (offset < data.length - 1) {
+        if (data[offset] === 0xFF && data[offset + 1] >= 0x80 && data[offset + 1] !== 0xFF) {
+            return offset;
+        }
+        offset++;
+    }
+    return data.length;
+}
+
+function clampThreshold(value: number, min: number, maxVal: number): number {
+    return value > maxVal || value < min ? min : value;
+}
+
+// Decoder for JPEG-LS lossless and near-lossless streams (ITU-T T.87), covering transfer syntaxes
+// 1.2.840.10008.1.2.4.80 and 1.2.840.10008.1.2.4.81. Supports all three interleave modes.
+export class JPEGLSDecoder {
+    private frame: LSFrame | null = null;
+    private preset: Partial<PresetParameters> = {};
+    private restartInterval = 0;
+    private output: Uint16Array | null = null;
+
+    static decode(data: Uint8Array): DecodedImage {
+        return new JPEGLSDecoder().decodeStream(data);
+    }
+
+    private decodeStream(data: Uint8Array): DecodedImage {
+        if (readUint16BE(data, 0) !== JPEGLSMarkers.SOI) {
+            throw new Error('Invalid JPEG-LS stream: missing SOI marker');
+        }
+
+        let offset = 2;
+        while (offset < data.length) {
+            while (data[offset] === 0xFF && data[offset + 1] === 0xFF) {
+                offset++; // Fill bytes
+            }
+            const marker = readUint16BE(data, offset);
+            offset += 2;
+
+            if (marker === JPEGLSMarkers.EOI) {
+                break;
+            }
+
+            const length = readUint16BE(data, offset);
+            const segmentEnd = offset + length;
+            const body = offset + 2;
+
+            switch (marker) {
+                case JPEGLSMarkers.SOF55:
+                    this.frame = this.readFrameHeader(data, body);
+                    break;
+                case JPEGLSMarkers.LSE:
+                    this.readPresetParameters(data, body);
+                    break;
+                case JPEGLSMarkers.DRI:
+                    this.restartInterval = length === 4 ? readUint16BE(data, body) : 0;
+                    break;
+                case JPEGLSMarkers.SOS:
+                    offset = this.decodeScan(data, body);
+                    continue;
+                default:
+                    if (marker >= 0xFFC0 && marker <= 0xFFCF && marker !== 0xFFC4 && marker !== 0xFFCC) {
+                        throw new Error(`Not a JPEG-LS stream (marker 0x${marker.toString(16)})`);
+                    }
+                    if ((marker & 0xFF00) !== 0xFF00) {
+                        offset = findNextLSMarker(data, offset - 2);
+                        continue;
+                    }
+                    break;
+            }
+
+            offset = segmentEnd;
+        }
+
+        if (!this.frame || !this.output) {
+            throw new Error('Invalid JPEG-LS stream: no image data found');
+        }
+
+        return {
+            width: this.frame.width,
+            height: this.frame.height,
+            components: this.frame.componentIds.length,
+            bitsPerSample: this.frame.precision,
+            data: this.output
+        };
+    }
+
+    private readFrameHeader(data: Uint8Array, offset: number): LSFrame {
+        const precision = data[offset];
+        const height = readUint16BE(data, offset + 1);
+        const width = readUint16BE(data, offset + 3);
+        const componentCount = data[offset + 5];
+        offset += 6;
+
+        if (precision < 2 || precision > 16) {
+            throw new Error(`Unsupported JPEG-LS sample precision: ${precision}`);
+        }
+        if (width === 0 || height === 0) {
+            throw new Error('Invalid JPEG-LS frame dimensions');
+        }
+
+        const componentIds: number[] = [];
+        for (let i = 0; i < componentCount; i++) {
+            if (data[offset + 1] !== 0x11) {
+                throw new Error('Subsampled JPEG-LS components are not supported');
+            }
+            componentIds.push(data[offset]);
+            offset += 3;
+        }
+
+        this.output = new Uint16Array(width * height * componentCount);
+        return { precision, width, height, componentIds };
+    }
+
+    private readPresetParameters(data: Uint8Array, offset: number): void {
+        const id = data[offset];
+        if (id !== 1) {
+            // Mapping tables (id 2/3) are only used with palettised images
+            throw new Error(`Unsupported JPEG-LS preset parameters (id ${id})`);
+        }
+        const value = (position: number) => readUint16BE(data, offset + 1 + position * 2) || undefined;
+        this.preset = {
+            maxVal: value(0),
+            t1: value(1),
+            t2: value(2),
+            t3: value(3),
+            reset: value(4)
+        };
+    }
+
+    private createScanState(near: number): ScanState {
+        const frame = this.frame!;
+        const maxVal = this.preset.maxVal ?? (1 << frame.precision) - 1;
+        const range = Math.floor((maxVal + 2 * near) / (2 * near + 1)) + 1;
+        const bpp = Math.max(2, Math.ceil(Math.log2(maxVal + 1)));
+        const qbpp = Math.ceil(Math.log2(range));
+        const limit = 2 * (bpp + Math.max(8, bpp));
+
+        // Default thresholds (T.87 C.2.4.1.1)
+        let t1: number;
+        let t2: number;
+        let t3: number;
+        if (maxVal >= 128) {
+            const factor = Math.floor((Math.min(maxVal, 4095) + 128) / 256);
+            t1 = clampThreshold(factor * (3 - 2) + 2 + 3 * near, near + 1, maxVal);
+            t2 = clampThreshold(factor * (7 - 3) + 3 + 5 * near, t1, maxVal);
+            t3 = clampThreshold(factor * (21 - 4) + 4 + 7 * near, t2, maxVal);
+        } else {
+            const factor = Math.floor(256 / (maxVal + 1));
+            t1 = clampThreshold(Math.max(2, Math.floor(3 / factor) + 3 * near), near + 1, maxVal);
+            t2 = clampThreshold(Math.max(3, Math.floor(7 / factor) + 5 * near), t1, maxVal);
+            t3 = clampThreshold(Math.max(4, Math.floor(21 / factor) + 7 * near), t2, maxVal);
+        }
+
+        const state: ScanState = {
+            near,
+            maxVal,
+            range,
+            qbpp,
+            limit,
+            t1: this.preset.t1 ?? t1,
+            t2: this.preset.t2 ?? t2,
+            t3: this.preset.t3 ?? t3,
+            reset: this.preset.reset ?? 64,
+            a: new Int32Array(REGULAR_CONTEXTS),
+            b: new Int32Array(REGULAR_CONTEXTS),
+            c: new Int32Array(REGULAR_CONTEXTS),
+            n: new Int32Array(REGULAR_CONTEXTS),
+            runA: new Int32Array(2),
+            runN: new Int32Array(2),
+            runNn: new Int32Array(2)
+        };
+        this.resetContexts(state);
+        return state;
+    }
+
+    private resetContexts(state: ScanState): void {
+        const initialA = Math.max(2, Math.floor((state.range + 32) / 64));
+        state.a.fill(initialA);
+        state.b.fill(0);
+        state.c.fill(0);
+        state.n.fill(1);
+        state.runA.fill(initialA);
+        state.runN.fill(1);
+        state.runNn.fill(0);
+    }
+
+    // Decodes one scan and returns the offset of the marker that follows it
+    private decodeScan(data: Uint8Array, offset: number): number {
+        const frame = this.frame;
+        const output = this.output;
+        if (!frame || !output) {
+            throw new Error('Invalid JPEG-LS stream: scan before frame header');
+        }
+
+        const scanComponentCount = data[offset++];
+        const components: number[] = [];
+        for (let i = 0; i < scanComponentCount; i++) {
+            const index = frame.componentIds.indexOf(data[offset]);
+            if (index < 0) {
+                throw new Error(`Invalid JPEG-LS scan: unknown component ${data[offset]}`);
+            }
+            if (data[offset + 1] !== 0) {
+                throw new Error('JPEG-LS mapping tables are not supported');
+            }
+            components.push(index);
+            offset += 2;
+        }
+        const near = data[offset];
+        const interleaveMode = data[offset + 1];
+        offset += 3;
+
+        if (interleaveMode === 0 && components.length !== 1) {
+            throw new Error('Invalid JPEG-LS scan: non-interleaved scan with several components');
+        }
+        if (interleaveMode > 2) {
+            throw new Error(`Invalid JPEG-LS interleave mode: ${interleaveMode}`);
+        }
+
+        const { width, height } = frame;
+        const stride = frame.componentIds.length;
+        const state = this.createScanState(near);
+        const reader = new JPEGLSBitReader(data, offset);
+
+        // Each component keeps the previous and current line with one guard sample on either side
+        let previousLines = components.map(() => new Int32Array(width + 2));
+        let currentLines = components.map(() => new Int32Array(width + 2));
+        const runIndices = components.map(() => 0);
+
+        for (let y = 0; y < height; y++) {
+            if (this.restartInterval && y > 0 && y % this.restartInterval === 0) {
+                reader.resetAtRestart();
+                this.resetContexts(state);
+                runIndices.fill(0);
+                previousLines.forEach(line => line.fill(0));
+            }
+
+            for (let i = 0; i < components.length; i++) {
+                const previous = previousLines[i];
+                currentLines[i][0] = previous[1];
+                previous[width + 1] = previous[width];
+            }
+
+            if (interleaveMode === 2) {
+                this.decodeInterleavedLine(reader, state, previousLines, currentLines, width, runIndices);
+            } else {
+                for (let i = 0; i < components.length; i++) {
+                    runIndices[i] = this.decodeLine(reader, state, previousLines[i], currentLines[i], width, runIndices[i]);
+                }
+            }
+
+            for (let i = 0; i < components.length; i++) {
+                const line = currentLines[i];
+                const rowOffset = y * width * stride + components[i];
+                for (let x = 0; x < width; x++) {
+                    output[rowOffset + x * stride] = line[x + 1];
+                }
+            }
+
+            const swap = previousLines;
+            previousLines = currentLines;
+            currentLines = swap;
+        }
+
+        return findNextLSMarker(data, reader.position);
+    }
+
+    // Decodes one line of a single component, returning the updated run index
+    private decodeLine(reader: JPEGLSBitReader, state: ScanState, previous: Int32Array,
+        current: Int32Array, width: number, runIndex: number): number {
+        let x = 1;
+        while (x <= width) {
+            const ra = current[x - 1];
+            const rb = previous[x];
+            const rc = previous[x - 1];
+            const rd = previous[x + 1];
+            const q = this.quantizeContext(state, rd - rb, rb - rc, rc - ra);
+
+            if (q !== 0) {
+                current[x] = this.decodeRegular(reader, state, q, ra, rb, rc);
+                x++;
+                continue;
+            }
+
+            // Run mode
+            const end = width + 1;
+            while (reader.readBit()) {
+                const count = Math.min(1 << J[runIndex], end - x);
+                current.fill(ra, x, x + count);
+                x += count;
+                if (count === 1 << J[runIndex] && runIndex < 31) {
+                    runIndex++;
+                }
+                if (x === end) {
+                    return runIndex;
+                }
+            }
+            const remaining = J[runIndex] > 0 ? reader.read(J[runIndex]) : 0;
+            if (x + remaining >= end) {
+                throw new Error('Invalid JPEG-LS run length');
+            }
+            current.fill(ra, x, x + remaining);
+            x += remaining;
+
+            // Run interruption sample
+            const interruptionRa = current[x - 1];
+            const interruptionRb = previous[x];
+            if (Math.abs(interruptionRa - interruptionRb) <= state.near) {
+                const errval = this.decodeRunInterruptionError(reader, state, 1, runIndex);
+                current[x] = this.reconstruct(state, interruptionRa, errval);
+            } else {
+                const errval = this.decodeRunInterruptionError(reader, state, 0, runIndex);
+                const sign = interruptionRb < interruptionRa ? -1 : 1;
+                current[x] = this.reconstruct(state, interruptionRb, errval * sign);
+            }
+            if (runIndex > 0) {
+                runIndex--;
+            }
+            x++;
+        }
+        return runIndex;
+    }
+
+    // Sample-interleaved line: all components share run mode and a single run index
+    private decodeInterleavedLine(reader: JPEGLSBitReader, state: ScanState, previousLines: Int32Array[],
+        currentLines: Int32Array[], width: number, runIndices: number[]): void {
+        const count = currentLines.length;
+        const contexts = new Int32Array(count);
+        let x = 1;
+
+        while (x <= width) {
+            let allZero = true;
+            for (let i = 0; i < count; i++) {
+                const previous = previousLines[i];
+                const ra = currentLines[i][x - 1];
+                contexts[i] = this.quantizeContext(state, previous[x + 1] - previous[x], previous[x] - previous[x - 1], previous[x - 1] - ra);
+                allZero = allZero && contexts[i] === 0;
+            }
+
+            if (!allZero) {
+                for (let i = 0; i < count; i++) {
+                    const previous = previousLines[i];
+                    const current = currentLines[i];
+                    current[x] = this.decodeRegular(reader, state, contexts[i], current[x - 1], previous[x], previous[x - 1]);
+                }
+                x++;
+                continue;
+            }
+
+            const end = width + 1;
+            let runIndex = runIndices[0];
+            let endOfLine = false;
+            while (reader.readBit()) {
+                const runLength = Math.min(1 << J[runIndex], end - x);
+                for (let i = 0; i < count; i++) {
+                    currentLines[i].fill(currentLines[i][x - 1], x, x + runLength);
+                }
+                x += runLength;
+                if (runLength === 1 << J[runIndex] && runIndex < 31) {
+                    runIndex++;
+                }
+                if (x === end) {
+                    endOfLine = true;
+                    break;
+                }
+            }
+
+            if (!endOfLine) {
+                const remaining = J[runIndex] > 0 ? reader.read(J[runIndex]) : 0;
+                if (x + remaining >= end) {
+                    throw new Error('Invalid JPEG-LS run length');
+                }
+                for (let i = 0; i < count; i++) {
+                    currentLines[i].fill(currentLines[i][x - 1], x, x + remaining);
+                }
+                x += remaining;
+
+                for (let i = 0; i < count; i++) {
+                    const ra = currentLines[i][x - 1];
+                    const rb = previousLines[i][x];
+                    const errval = this.decodeRunInterruptionError(reader, state, 0, runIndex);
+                    const sign = rb < ra ? -1 : 1;
+                    currentLines[i][x] = this.reconstruct(state, rb, errval * sign);
+                }
+                if (runIndex > 0) {
+                    runIndex--;
+                }
+                x++;
+            }
+            runIndices[0] = runIndex;
+        }
+    }
+
+    // Maps the local gradients onto a signed context number in [-364, 364] (T.87 A.3)
+    private quantizeContext(state: ScanState, d1: number, d2: number, d3: number): number {
+        return 81 * this.quantizeGradient(state, d1) + 9 * this.quantizeGradient(state, d2) + this.quantizeGradient(state, d3);
+    }
+
+    private quantizeGradient(state: ScanState, d: number): number {
+        if (d <= -state.t3) return -4;
+        if (d <= -state.t2) return -3;
+        if (d <= -state.t1) return -2;
+        if (d < -state.near) return -1;
+        if (d <= state.near) return 0;
+        if (d < state.t1) return 1;
+        if (d < state.t2) return 2;
+        if (d < state.t3) return 3;
+        return 4;
+    }
+
+    private decodeRegular(reader: JPEGLSBitReader, state: ScanState, context: number,
+        ra: number, rb: number, rc: number): number {
+        const sign = context < 0 ? -1 : 1;
+        const q = context * sign;
+
+        // Median edge detector prediction plus the context's bias correction
+        let prediction: number;
+        if (rc >= Math.max(ra, rb)) {
+            prediction = Math.min(ra, rb);
+        } else if (rc <= Math.min(ra, rb)) {
+            prediction = Math.max(ra, rb);
+        } else {
+            prediction = ra + rb - rc;
+        }
+        prediction += sign * state.c[q];
+        prediction = prediction < 0 ? 0 : prediction > state.maxVal ? state.maxVal : prediction;
+
+        let k = 0;
+        while ((state.n[q] << k) < state.a[q] && k < 24) {
+            k++;
+        }
+
+        const mappedError = reader.readGolomb(k, state.limit, state.qbpp);
+        let errval = mappedError & 1 ? -((mappedError + 1) >> 1) : mappedError >> 1;
+        if (k === 0 && state.near === 0 && 2 * state.b[q] <= -state.n[q]) {
+            errval = -errval - 1;
+        }
+
+        this.updateContext(state, q, errval);
+        return this.reconstruct(state, prediction, errval * sign);
+    }
+
+    private updateContext(state: ScanState, q: number, errval: number): void {
+        let a = state.a[q] + Math.abs(errval);
+        let b = state.b[q] + errval * (2 * state.near + 1);
+        let n = state.n[q];
+        if (n === state.reset) {
+            a >>= 1;
+            b >>= 1;
+            n >>= 1;
+        }
+        n++;
+        state.a[q] = a;
+        state.n[q] = n;
+
+        // Bias cancellation (T.87 A.6.2)
+        if (b + n <= 0) {
+            b += n;
+            if (b <= -n) {
+                b = -n + 1;
+            }
+            if (state.c[q] > MIN_C) {
+                state.c[q]--;
+            }
+        } else if (b > 0) {
+            b -= n;
+            if (b > 0) {
+                b = 0;
+            }
+            if (state.c[q] < MAX_C) {
+                state.c[q]++;
+            }
+        }
+        state.b[q] = b;
+    }
+
+    // Decodes a run interruption error value (T.87 A.7.2) and updates its context
+    private decodeRunInterruptionError(reader: JPEGLSBitReader, state: ScanState, riType: number, runIndex: number): number {
+        const temp = state.runA[riType] + (state.runN[riType] >> 1) * riType;
+        let k = 0;
+        while ((state.runN[riType] << k) < temp && k < 24) {
+            k++;
+        }
+
+        const mappedError = reader.readGolomb(k, state.limit - J[runIndex] - 1, state.qbpp);
+        const shifted = mappedError + riType;
+        const map = shifted & 1;
+        const magnitude = (shifted + map) >> 1;
+        const negative = (k !== 0 || 2 * state.runNn[riType] >= state.runN[riType]) === (map === 1);
+        const errval = negative ? -magnitude : magnitude;
+
+        if (errval < 0) {
+            state.runNn[riType]++;
+        }
+        state.runA[riType] += (mappedError + 1 - riType) >> 1;
+        if (state.runN[riType] === state.reset) {
+            state.runA[riType] >>= 1;
+            state.runN[riType] >>= 1;
+            state.runNn[riType] >>= 1;
+        }
+        state.runN[riType]++;
+
+        return errval;
+    }
+
+    private reconstruct(state: ScanState, prediction: number, errval: number): number {
+        const step = 2 * state.near + 1;
+        let value = prediction + errval * step;
+        if (value < -state.near) {
+            value += state.range * step;
+        } else if (value > state.maxVal + state.near) {
+            value -= state.range * step;
+        }
+        return value < 0 ? 0 : value > state.maxVal ? state.maxVal : value;
+    }
+}
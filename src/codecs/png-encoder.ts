@@ -0,0 +1,112 @@
+import * as zlib from 'zlib';
+
+export interface PNGEncodeOptions {
+    bitDepth?: 8 | 16;          // Bits per sample, 8 by default
+    significantBits?: number;   // Original sample precision, written as an sBIT chunk
+    pixelsPerMeter?: { x: number; y: number };  // Physical pixel size, written as a pHYs chunk
+    text?: Record<string, string>;              // Keyword/value pairs, written as tEXt or iTXt chunks
+}
+
+// tEXt holds Latin-1 without control characters other than newline; anything else needs UTF-8 iTXt
+const LATIN1_TEXT = /^[\x20-\x7e\xa0-\xff\n]*$/;
+
+export const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let c = i;
+        for (let j = 0; j < 8; j++) {
+            c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+        }
+        table[i] = c >>> 0;
+    }
+    return table;
+})();
+
+// Encoder for non-interlaced grayscale and truecolor PNGs at 8 or 16 bits per sample
+export class PNGEncoder {
+    static encode(samples: Uint8Array | Uint16Array, width: number, height: number, channels: 1 | 3, options: PNGEncodeOptions = {}): Buffer {
+        const bitDepth = options.bitDepth || 8;
+
+        const chunks = [PNGEncoder.createHeader(width, height, channels, bitDepth)];
+        if (options.significantBits && options.significantBits < bitDepth) {
+            chunks.push(PNGEncoder.createChunk('sBIT', Buffer.alloc(channels, options.significantBits)));
+        }
+        if (options.pixelsPerMeter) {
+            const physical = Buffer.alloc(9);
+            physical.writeUInt32BE(Math.round(options.pixelsPerMeter.x), 0);
+            physical.writeUInt32BE(Math.round(options.pixelsPerMeter.y), 4);
+            physical[8] = 1;    // Unit: meter
+            chunks.push(PNGEncoder.createChunk('pHYs', physical));
+        }
+        for (const [keyword, value] of Object.entries(options.text || {})) {
+            chunks.push(PNGEncoder.createTextChunk(keyword, value));
+        }
+        chunks.push(PNGEncoder.createChunk('IDAT', zlib.deflateSync(PNGEncoder.toScanlines(samples, width, height, channels, bitDepth))));
+        chunks.push(PNGEncoder.createChunk('IEND', Buffer.alloc(0)));
+
+        return Buffer.concat([PNG_SIGNATURE, ...chunks]);
+    }
+
+    static createHeader(width: number, height: number, channels: 1 | 3, bitDepth: number): Buffer {
+        const header = Buffer.alloc(13);
+        header.writeUInt32BE(width, 0);
+        header.writeUInt32BE(height, 4);
+        header[8] = bitDepth;
+        header[9] = channels === 3 ? 2 : 0;    // Color type (truecolor or grayscale)
+        header[10] = 0;                         // Compression method
+        header[11] = 0;                         // Filter method
+        header[12] = 0;                         // Interlace method
+        return PNGEncoder.createChunk('IHDR', header);
+    }
+
+    static createChunk(type: string, data: Buffer): Buffer {
+        const chunk = Buffer.alloc(data.length + 12);
+        chunk.writeUInt32BE(data.length, 0);
+        chunk.write(type, 4, 'latin1');
+        data.copy(chunk, 8);
+        chunk.writeUInt32BE(PNGEncoder.calculateCRC(chunk.subarray(4, data.length + 8)), data.length + 8);
+        return chunk;
+    }
+
+    // Keywords are 1-79 Latin-1 characters followed by a null separator
+    private static createTextChunk(keyword: string, value: string): Buffer {
+        const key = Buffer.from(keyword.slice(0, 79), 'latin1');
+        if (LATIN1_TEXT.test(value)) {
+            return PNGEncoder.createChunk('tEXt', Buffer.concat([key, Buffer.from([0]), Buffer.from(value, 'latin1')]));
+        }
+        // Uncompressed, with empty language tag and translated keyword
+        return PNGEncoder.createChunk('iTXt', Buffer.concat([key, Buffer.from([0, 0, 0, 0, 0]), Buffer.from(value, 'utf8')]));
+    }
+
+    // CRC-32 over the chunk type and data
+    static calculateCRC(data: Uint8Array): number {
+        let crc = 0xffffffff;
+        for (let i = 0; i < data.length; i++) {
+            crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    // Each row is prefixed with filter type 0 (None); 16-bit samples are big-endian
+    static toScanlines(samples: Uint8Array | Uint16Array, width: number, height: number, channels: number, bitDepth: number): Buffer {
+        const rowSamples = width * channels;
+        const bytesPerSample = bitDepth / 8;
+        const scanlineLength = rowSamples * bytesPerSample + 1;
+        const scanlines = Buffer.alloc(height * scanlineLength);
+
+        for (let y = 0; y < height; y++) {
+            let offset = y * scanlineLength + 1;
+            const row = y * rowSamples;
+            if (bitDepth === 8) {
+                scanlines.set(samples.subarray(row, row + rowSamples), offset);
+                continue;
+            }
+            for (let i = 0; i < rowSamples; i++, offset += 2) {
+                scanlines.writeUInt16BE(samples[row + i], offset);
+            }
+        }
+        return scanlines;
+    }
+}
@@ -0,0 +1,56 @@
+import * as zlib from 'zlib';
+
+export interface PNGMetadata {
+    text: Record<string, string>;                // tEXt, zTXt and iTXt values by keyword
+    pixelsPerMeter?: { x: number; y: number };   // From a pHYs chunk in meter units
+}
+
+// Reads the textual and physical-size chunks of a PNG without decoding its pixels
+export class PNGMetadataReader {
+    static read(data: Uint8Array): PNGMetadata {
+        const bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+        if (bytes.length < 8 || bytes.readUInt32BE(0) !== 0x89504E47 || bytes.readUInt32BE(4) !== 0x0D0A1A0A) {
+            throw new Error('Not a PNG file');
+        }
+
+        const metadata: PNGMetadata = { text: {} };
+        let offset = 8;
+        while (offset + 8 <= bytes.length) {
+            const length = bytes.readUInt32BE(offset);
+            const type = bytes.toString('latin1', offset + 4, offset + 8);
+            const body = bytes.subarray(offset + 8, Math.min(offset + 8 + length, bytes.length));
+            offset += length + 12;
+
+            try {
+                if (type === 'tEXt') {
+                    const separator = body.indexOf(0);
+                    metadata.text[body.toString('latin1', 0, separator)] = body.toString('latin1', separator + 1);
+                } else if (type === 'zTXt') {
+                    const separator = body.indexOf(0);
+                    // The byte after the separator is the compression method, always deflate
+                    metadata.text[body.toString('latin1', 0, separator)] = zlib.inflateSync(body.subarray(separator + 2)).toString('latin1');
+                } else if (type === 'iTXt') {
+                    PNGMetadataReader.readInternationalText(body, metadata.text);
+                } else if (type === 'pHYs' && body.length >= 9 && body[8] === 1) {
+                    metadata.pixelsPerMeter = { x: body.readUInt32BE(0), y: body.readUInt32BE(4) };
+                } else if (type === 'IEND') {
+                    break;
+                }
+            } catch (error) {
+                // A damaged text chunk should not hide the others
+                console.debug(`Skipping unreadable PNG ${type} chunk:`, error);
+            }
+        }
+        return metadata;
+    }
+
+    // Keyword, compression flag and method, language tag, translated keyword, UTF-8 text
+    private static readInternationalText(body: Buffer, text: Record<string, string>): void {
+        const keywordEnd = body.indexOf(0);
+        const compressed = body[keywordEnd + 1] === 1;
+        const languageEnd = body.indexOf(0, keywordEnd + 3);
+        const translatedEnd = body.indexOf(0, languageEnd + 1);
+        const value = body.subarray(translatedEnd + 1);
+        text[body.toString('latin1', 0, keywordEnd)] = (compressed ? zlib.inflateSync(value) : value).toString('utf8');
+    }
+}
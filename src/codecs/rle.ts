@@ -0,0 +1,83 @@
+import { DecodedImage } from '../models/types';
+
+export interface RLEImageInfo {
+    rows: number;
+    columns: number;
+    samplesPerPixel: number;
+    bitsAllocated: number;
+}
+
+// Decoder for DICOM RLE Lossless (1.2.840.10008.1.2.5), PS3.5 Annex G.
+// Each frame carries a 64-byte header listing up to 15 PackBits segments; every segment holds one
+// byte plane, ordered by sample and then from the most to the least significant byte.
+export class RLEDecoder {
+    static decode(data: Uint8Array, info: RLEImageInfo): DecodedImage {
+        const { rows, columns, samplesPerPixel, bitsAllocated } = info;
+        if (bitsAllocated !== 8 && bitsAllocated !== 16) {
+            throw new Error(`Unsupported RLE bits allocated: ${bitsAllocated}`);
+        }
+        if (data.length < 64) {
+            throw new Error('Invalid RLE frame: header is truncated');
+        }
+
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        const segmentCount = view.getUint32(0, true);
+        const bytesPerSample = bitsAllocated / 8;
+        const expectedSegments = samplesPerPixel * bytesPerSample;
+        if (segmentCount !== expectedSegments || segmentCount > 15) {
+            throw new Error(`Invalid RLE frame: expected ${expectedSegments} segments, found ${segmentCount}`);
+        }
+
+        const offsets: number[] = [];
+        for (let i = 0; i < segmentCount; i++) {
+            offsets.push(view.getUint32(4 + i * 4, true));
+        }
+
+        const pixelCount = rows * columns;
+        const output = new Uint16Array(pixelCount * samplesPerPixel);
+        const plane = new Uint8Array(pixelCount);
+
+        for (let segment = 0; segment < segmentCount; segment++) {
+            const start = offsets[segment];
+            const end = segment + 1 < segmentCount ? offsets[segment + 1] : data.length;
+            RLEDecoder.decodeSegment(data, start, end, plane);
+
+            const sample = Math.floor(segment / bytesPerSample);
+            // Segments run from the most significant byte down
+            const shift = 8 * (bytesPerSample - 1 - (segment % bytesPerSample));
+            for (let i = 0; i < pixelCount; i++) {
+                output[i * samplesPerPixel + sample] |= plane[i] << shift;
+            }
+        }
+
+        return {
+            width: columns,
+            height: rows,
+            components: samplesPerPixel,
+            bitsPerSample: bitsAllocated,
+            data: output
+        };
+    }
+
+    // PackBits: a header byte n in [0, 127] copies n + 1 literal bytes, n in [-127, -1] repeats
+    // the next byte 1 - n times and -128 is a no-op
+    private static decodeSegment(data: Uint8Array, start: number, end: number, plane: Uint8Array): void {
+        plane.fill(0);
+        let position = start;
+        let written = 0;
+
+        while (position < end && written < plane.length) {
+            const header = data[position++];
+            if (header < 128) {
+                const count = Math.min(header + 1, plane.length - written, end - position);
+                plane.set(data.subarray(position, position + count), written);
+                position += header + 1;
+                written += count;
+            } else if (header > 128) {
+                const count = Math.min(257 - header, plane.length - written);
+                plane.fill(data[position++], written, written + count);
+                written += count;
+            }
+        }
+    }
+}
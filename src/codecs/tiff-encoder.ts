@@ -0,0 +1,82 @@
+// TIFF 6.0 field types
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+interface TIFFField {
+    tag: number;
+    type: number;
+    values: number[];   // RATIONAL values are numerator, denominator pairs
+}
+
+// Baseline little-endian TIFF with one uncompressed strip of 8-bit grayscale or RGB samples
+export class TIFFEncoder {
+    static encode(samples: Uint8Array, width: number, height: number, channels: 1 | 3): Buffer {
+        const headerLength = 8;
+        const imageLength = width * height * channels;
+        const fields: TIFFField[] = [
+            { tag: 256, type: LONG, values: [width] },                                   // ImageWidth
+            { tag: 257, type: LONG, values: [height] },                                  // ImageLength
+            { tag: 258, type: SHORT, values: new Array(channels).fill(8) },              // BitsPerSample
+            { tag: 259, type: SHORT, values: [1] },                                      // Compression: none
+            { tag: 262, type: SHORT, values: [channels === 3 ? 2 : 1] },                 // Photometric: RGB or BlackIsZero
+            { tag: 273, type: LONG, values: [headerLength] },                            // StripOffsets
+            { tag: 277, type: SHORT, values: [channels] },                               // SamplesPerPixel
+            { tag: 278, type: LONG, values: [height] },                                  // RowsPerStrip
+            { tag: 279, type: LONG, values: [imageLength] },                             // StripByteCounts
+            { tag: 282, type: RATIONAL, values: [72, 1] },                               // XResolution
+            { tag: 283, type: RATIONAL, values: [72, 1] },                               // YResolution
+            { tag: 284, type: SHORT, values: [1] },                                      // PlanarConfiguration: chunky
+            { tag: 296, type: SHORT, values: [2] }                                       // ResolutionUnit: inch
+        ];
+
+        // Image data directly follows the header; the directory is word aligned after it
+        const directoryOffset = headerLength + imageLength + (imageLength & 1);
+        const directoryLength = 2 + fields.length * 12 + 4;
+        // Values that do not fit an entry's 4 bytes go after the directory
+        let overflowOffset = directoryOffset + directoryLength;
+        const overflowLength = fields.reduce((total, field) => {
+            const size = TIFFEncoder.valueSize(field);
+            return size > 4 ? total + size : total;
+        }, 0);
+
+        const output = Buffer.alloc(overflowOffset + overflowLength);
+        output.write('II', 0, 'latin1');
+        output.writeUInt16LE(42, 2);
+        output.writeUInt32LE(directoryOffset, 4);
+        output.set(samples.subarray(0, imageLength), headerLength);
+
+        output.writeUInt16LE(fields.length, directoryOffset);
+        fields.forEach((field, index) => {
+            const entry = directoryOffset + 2 + index * 12;
+            output.writeUInt16LE(field.tag, entry);
+            output.writeUInt16LE(field.type, entry + 2);
+            output.writeUInt32LE(field.type === RATIONAL ? field.values.length / 2 : field.values.length, entry + 4);
+
+            const size = TIFFEncoder.valueSize(field);
+            let valueOffset = entry + 8;
+            if (size > 4) {
+                output.writeUInt32LE(overflowOffset, entry + 8);
+                valueOffset = overflowOffset;
+                overflowOffset += size;
+            }
+            for (const value of field.values) {
+                if (field.type === SHORT) {
+                    output.writeUInt16LE(value, valueOffset);
+                    valueOffset += 2;
+                } else {
+                    output.writeUInt32LE(value, valueOffset);
+                    valueOffset += 4;
+                }
+            }
+        });
+        // No further directories
+        output.writeUInt32LE(0, directoryOffset + 2 + fields.length * 12);
+
+        return output;
+    }
+
+    private static valueSize(field: TIFFField): number {
+        return field.values.length * (field.type === SHORT ? 2 : 4);
+    }
+}
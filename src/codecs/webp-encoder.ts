@@ -0,0 +1,31 @@
+// Lossy WebP through Chromium's canvas encoder, which Obsidian's renderer process provides
+export class WebPEncoder {
+    static encode(samples: Uint8Array, width: number, height: number, channels: 1 | 3, quality: number): Buffer {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('WebP encoding needs a 2D canvas context');
+        }
+
+        const imageData = context.createImageData(width, height);
+        const rgba = imageData.data;
+        for (let i = 0; i < width * height; i++) {
+            const source = i * channels;
+            rgba[i * 4] = samples[source];
+            rgba[i * 4 + 1] = samples[channels === 3 ? source + 1 : source];
+            rgba[i * 4 + 2] = samples[channels === 3 ? source + 2 : source];
+            rgba[i * 4 + 3] = 255;
+        }
+        context.putImageData(imageData, 0, 0);
+
+        // Browsers without a WebP encoder silently fall back to PNG
+        const dataUrl = canvas.toDataURL('image/webp', Math.max(0, Math.min(100, quality)) / 100);
+        const prefix = 'data:image/webp;base64,';
+        if (!dataUrl.startsWith(prefix)) {
+            throw new Error('WebP encoding is not supported by this platform');
+        }
+        return Buffer.from(dataUrl.slice(prefix.length), 'base64');
+    }
+}
@@ -6,6 +6,7 @@ import { ViewerService } from './services/viewer-service';
 import { BatchProcessor } from './services/batch-processor';
 import { MetadataService } from './services/metadata-service';
 import { ImportModal } from './ui/import-modal';
+import { PNGMetadataReader } from './codecs/png-metadata-reader';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 
@@ -58,6 +59,42 @@ export default class DICOMHandlerPlugin extends Plugin {
                 new ImportModal(this).open();
             }
         });
+
+        this.addCommand({
+            id: 'open-image-series-note',
+            name: 'Open Series Note of Converted Image',
+            checkCallback: (checking: boolean) => {
+                const activeFile = this.app.workspace.getActiveFile();
+                if (activeFile?.extension === 'png') {
+                    if (!checking) {
+                        this.openImageSeriesNote(activeFile);
+                    }
+                    return true;
+                }
+                return false;
+            }
+        });
+    }
+
+    // Follows the provenance embedded in a converted PNG back to its series note
+    async openImageSeriesNote(imageFile: TFile) {
+        try {
+            const { text } = PNGMetadataReader.read(new Uint8Array(await this.app.vault.readBinary(imageFile)));
+            const seriesInstanceUID = text['SeriesInstanceUID'];
+            if (!seriesInstanceUID) {
+                new Notice('This image has no embedded DICOM source information');
+                return;
+            }
+
+            const note = this.metadataService.findSeriesNote(seriesInstanceUID);
+            if (!note) {
+                new Notice(`No series note found for series ${seriesInstanceUID}`);
+                return;
+            }
+            await this.app.workspace.getLeaf().openFile(note);
+        } catch (error) {
+            new Notice(`Could not read image metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
     }
 
     async convertFolder(sourceFolderPath: string, destinationFolderPath: string,
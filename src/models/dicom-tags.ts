@@ -57,6 +57,7 @@ export const DicomTags = {
     Columns: 'x00280011',
     InstanceNumber: 'x00200013',
     PixelSpacing: 'x00280030',
+    ImagerPixelSpacing: 'x00181164',
     BitsAllocated: 'x00280100',
     BitsStored: 'x00280101',
     HighBit: 'x00280102',
@@ -65,12 +66,43 @@ export const DicomTags = {
     WindowWidth: 'x00281051',
     RescaleIntercept: 'x00281052',
     RescaleSlope: 'x00281053',
+    RescaleType: 'x00281054',
+    WindowCenterWidthExplanation: 'x00281055',
+    VOILUTFunction: 'x00281056',
+
+    // Modality and VOI Lookup Tables
+    ModalityLUTSequence: 'x00283000',
+    LUTDescriptor: 'x00283002',
+    LUTExplanation: 'x00283003',
+    ModalityLUTType: 'x00283004',
+    LUTData: 'x00283006',
+    VOILUTSequence: 'x00283010',
     PixelData: 'x7fe00010',
+    ExtendedOffsetTable: 'x7fe00001',
+    ExtendedOffsetTableLengths: 'x7fe00002',
 
     // Required for raw pixel data handling
     PlanarConfiguration: 'x00280006',
     NumberOfFrames: 'x00280008',
 
+    // Cine timing
+    CineRate: 'x00180040',
+    FrameTime: 'x00181063',
+    FrameTimeVector: 'x00181065',
+    RecommendedDisplayFrameRate: 'x00082144',
+
+    // Palette Color Lookup Tables
+    RedPaletteColorLookupTableDescriptor: 'x00281101',
+    GreenPaletteColorLookupTableDescriptor: 'x00281102',
+    BluePaletteColorLookupTableDescriptor: 'x00281103',
+    PaletteColorLookupTableUID: 'x00281199',
+    RedPaletteColorLookupTableData: 'x00281201',
+    GreenPaletteColorLookupTableData: 'x00281202',
+    BluePaletteColorLookupTableData: 'x00281203',
+    SegmentedRedPaletteColorLookupTableData: 'x00281221',
+    SegmentedGreenPaletteColorLookupTableData: 'x00281222',
+    SegmentedBluePaletteColorLookupTableData: 'x00281223',
+
     // Acquisition Information
     SpecificCharacterSet: 'x00080005',
     AcquisitionDate: 'x00080022',
@@ -105,9 +137,51 @@ export const DicomTags = {
     DiffusionGradientOrientation: 'x00431040',
     DiffusionDirection: 'x00431041',
 
+    // PET Parameters
+    Units: 'x00541001',
+    DecayCorrection: 'x00541102',
+    CorrectedImage: 'x00280051',
+    RadiopharmaceuticalInformationSequence: 'x00540016',
+    Radiopharmaceutical: 'x00180031',
+    RadiopharmaceuticalStartTime: 'x00181072',
+    RadionuclideTotalDose: 'x00181074',
+    RadionuclideHalfLife: 'x00181075',
+    RadiopharmaceuticalStartDateTime: 'x00181078',
+
     // Presentation Parameters
     PresentationLUTShape: 'x20500020',
 
+    // Overlay Plane (first of the repeating groups 6000-601E)
+    OverlayRows: 'x60000010',
+    OverlayColumns: 'x60000011',
+    NumberOfFramesInOverlay: 'x60000015',
+    OverlayDescription: 'x60000022',
+    OverlayType: 'x60000040',
+    OverlayOrigin: 'x60000050',
+    ImageFrameOrigin: 'x60000051',
+    OverlayBitsAllocated: 'x60000100',
+    OverlayBitPosition: 'x60000102',
+    OverlayLabel: 'x60001500',
+    OverlayData: 'x60003000',
+
+    // Ultrasound Regions (items of the Sequence of Ultrasound Regions)
+    SequenceOfUltrasoundRegions: 'x00186011',
+    RegionSpatialFormat: 'x00186012',
+    RegionDataType: 'x00186014',
+    RegionFlags: 'x00186016',
+    RegionLocationMinX0: 'x00186018',
+    RegionLocationMinY0: 'x0018601a',
+    RegionLocationMaxX1: 'x0018601c',
+    RegionLocationMaxY1: 'x0018601e',
+    ReferencePixelX0: 'x00186020',
+    ReferencePixelY0: 'x00186022',
+    PhysicalUnitsXDirection: 'x00186024',
+    PhysicalUnitsYDirection: 'x00186026',
+    ReferencePixelPhysicalValueX: 'x00186028',
+    ReferencePixelPhysicalValueY: 'x0018602a',
+    PhysicalDeltaX: 'x0018602c',
+    PhysicalDeltaY: 'x0018602e',
+
     // GEMS Parameters
     GEImageProcessingHistory: 'x00190010',
     GEImageType: 'x00191009',
@@ -1,8 +1,81 @@
 // src/models/types.ts
+import dicomParser from 'dicom-parser';
 
 // Define type for progress updates
 export interface Progress {
     percentage: number;
     message: string;
     phase?: 'analyzing' | 'importing' | 'creating-folders' | 'processing-files' | 'creating-metadata';
-}
\ No newline at end of file
+}
+
+// Decoded pixel samples produced by the in-process codecs
+export interface DecodedImage {
+    width: number;
+    height: number;
+    components: number;      // Samples per pixel
+    bitsPerSample: number;   // Sample precision of the encoded stream
+    data: Uint16Array;       // Interleaved samples, row by row
+}
+
+// 8-bit display pixels of a rendered frame, kept in memory for building animations
+export interface DisplayFrame {
+    columns: number;
+    rows: number;
+    channels: 1 | 3;
+    samples: Uint8Array;     // Grayscale or interleaved RGB
+    delay?: number;          // Display time in milliseconds from the image's cine timing
+}
+
+// One converted frame: the default rendering plus one rendering per window preset
+export interface ConvertedFrame {
+    image: string;                                  // Image data URL in the output format
+    thumbnail?: string;                             // Gallery-sized 8-bit copy of the image, when enabled
+    display: DisplayFrame;                          // Pixels of the default rendering
+    presets: { name: string; image: string; thumbnail?: string }[];   // Named after the preset's image folder
+    suvMax?: number;                                // Highest SUVbw of the frame, for PET images with an SUV calibration
+}
+
+export interface AnimationOptions {
+    delays: number[];       // Display time of each frame in milliseconds
+    loopCount: number;      // Number of times the animation plays; 0 repeats forever
+    dither?: boolean;       // Floyd-Steinberg dithering when color frames need a reduced palette
+}
+
+// One image of a series contact sheet
+export interface MosaicTile {
+    frame: DisplayFrame;
+    sliceNumber: number;     // 1-based place of the image in the series
+    position?: number;       // Slice position in millimeters, when known
+}
+
+export interface MosaicOptions {
+    columns: number;         // Tiles per row
+    rows: number;            // Maximum number of tile rows
+    interval: number;        // Use every Nth image; 0 spreads the images evenly over the grid
+    tileSize: number;        // Tile width in pixels
+    labels: boolean;         // Label tiles with slice number and position
+}
+
+// Modality values of a regular stack of slices in patient order, with its sampling in millimeters
+export interface Volume {
+    columns: number;
+    rows: number;
+    slices: number;
+    values: Float32Array;                   // Slice by slice, row by row
+    columnSpacing: number;                  // Distance between columns
+    rowSpacing: number;                     // Distance between rows
+    sliceSpacing: number;                   // Distance between slices along the slice normal
+    normal: [number, number, number];       // Direction of increasing slice index in patient coordinates
+    dataSet: dicomParser.DataSet;           // First slice, for the VOI and presentation attributes
+}
+
+// Pixels of one frame ready for display processing: stored grayscale values or 8-bit RGB
+export type FramePixels =
+    | { kind: 'grayscale'; columns: number; rows: number; stored: ArrayLike<number> }
+    | { kind: 'color'; columns: number; rows: number; rgb: Uint8Array };
+
+// Every frame of one DICOM file, decoded and ready to render
+export interface DecodedFile {
+    dicomData: dicomParser.DataSet;
+    frames: FramePixels[];
+}
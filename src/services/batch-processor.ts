@@ -1,8 +1,14 @@
 import { App, TFile, TFolder } from 'obsidian';
-import { DICOMService } from './dicom-service';
+import { DICOMService, ConversionOptions } from './dicom-service';
 import { MetadataService } from './metadata-service';
 import { PathService } from './path-service';
 import { DicomTags } from '../models/dicom-tags';
+import { GrayscalePipeline } from '../utils/grayscale-pipeline';
+import { ImageFormats } from '../utils/image-format';
+import { SliceOrder } from '../utils/slice-order';
+import { MultiplanarReformat } from '../utils/multiplanar-reformat';
+import { VolumeProjection } from '../utils/volume-projection';
+import { DecodedFile, Volume } from '../models/types';
 import { DICOMHandlerSettings } from '../settings';
 import * as path from 'path';
 import * as fs from 'fs/promises';
@@ -46,7 +52,7 @@ export class BatchProcessor {
 
         // Process files by series and track studies
         const seriesGroups = new Map<string, {
-            files: { path: string; buffer: Buffer }[];
+            files: { path: string; buffer: Buffer; dicomData: dicomParser.DataSet }[];
             targetPath: string;
             dicomData: dicomParser.DataSet;
         }>();
@@ -72,7 +78,7 @@ export class BatchProcessor {
                     dicomData: result.dicomData
                 });
             }
-            seriesGroups.get(seriesUID)?.files.push(fileInfo);
+            seriesGroups.get(seriesUID)?.files.push({ ...fileInfo, dicomData: result.dicomData });
 
             // Track study
             if (!studyGroups.has(studyUID)) {
@@ -88,76 +94,118 @@ export class BatchProcessor {
 
         // Process each series
         let processedSeries = 0;
-        let skippedFiles = 0;
         for (const [seriesUID, group] of seriesGroups) {
             await this.ensureFolderPath(group.targetPath);
 
+            // Originals archived by an earlier import of the series join the batch, so a series imported in parts
+            // keeps every slice and is named as a whole
+            const archive = await this.readArchivedFiles(PathService.joinPath(group.targetPath, 'DICOM'), seriesUID, group.files);
+            group.files = group.files.concat(archive.files);
+
+            // Images and archived files are named by slice position, so the gallery, the animation and
+            // the archive all follow the anatomy instead of the order of the source file names
+            group.files = SliceOrder.sort(group.files, file => file.dicomData);
+
             // Process images in parallel
             if (!this.isStructuredReport(group.dicomData)) {
+                // Every output is made again for the whole series
+                await this.clearSeriesOutputs(group.targetPath);
                 const imagesPath = PathService.joinPath(group.targetPath, 'Images');
                 await this.ensureFolderPath(imagesPath);
 
-                // Convert all images in series
-                const results = await Promise.all(group.files.map(async file => {
+                // Percentile auto-windowing shares one window across the series so every slice matches
+                const options: ConversionOptions = {};
+                if (this.settings.autoWindowMode === 'percentile' && !GrayscalePipeline.hasStoredVOI(group.dicomData)) {
                     try {
-                        const fileName = path.basename(file.path);
-                        const baseFileName = this.dicomService.normalizeFileName(path.parse(fileName).name);
-                        const targetPath = PathService.joinPath(imagesPath, `${baseFileName}.png`);
-
-                        // Check if file exists before attempting conversion
-                        const exists = await this.app.vault.adapter.exists(targetPath);
-                        if (exists) {
-                            skippedFiles++;
-                            return { skipped: true };
-                        }
-
-                        await this.dicomService.convertToImage({
-                            path: file.path,
-                            name: fileName,
-                            basename: baseFileName,
-                            extension: path.parse(fileName).ext.slice(1),
-                            parent: null,
-                            vault: this.app.vault,
-                            stat: { mtime: Date.now(), ctime: Date.now(), size: file.buffer.length }
-                        } as TFile, targetPath);
-                        return { skipped: false };
+                        options.seriesWindow = await this.dicomService.computeSeriesWindow(
+                            group.files.map(file => this.toTFile(file)));
                     } catch (error) {
-                        if (error instanceof Error && error.message.includes('already exists')) {
-                            skippedFiles++;
-                            return { skipped: true };
+                        console.error(`Failed to compute series window, windowing images individually: ${error}`);
+                    }
+                }
+
+                // Reformats and projections share one volume, which only regular axial stacks of a limited size
+                // have. It is filled with the decoded files during conversion.
+                let volume = this.settings.createReformats || this.settings.createProjections
+                    ? this.dicomService.createVolume(group.files.map(file => file.dicomData))
+                    : undefined;
+
+                // Convert all images in series; animations and mosaics are built from the rendered frames
+                const keepFrames = this.settings.createAnimatedGif || this.settings.createMosaic;
+                const results = await Promise.all(group.files.map(async (file, index) => {
+                    const sliceName = SliceOrder.getSliceName(index, group.files.length);
+                    const targetPath = PathService.joinPath(imagesPath, `${sliceName}.${this.dicomService.getImageExtension()}`);
+                    let decoded: DecodedFile | undefined;
+                    try {
+                        decoded = await this.dicomService.decodeFile(this.toTFile(file));
+                        // A volume missing a slice is of no use, so a file that does not decode or fit drops it
+                        if (volume && !this.dicomService.addVolumeSlice(volume, index, decoded)) {
+                            volume = undefined;
                         }
+                        const converted = await this.dicomService.renderImages(decoded, targetPath, options);
+                        return {
+                            file,
+                            frames: keepFrames ? converted.map(frame => frame.display) : [],
+                            suvMax: Math.max(...converted.map(frame => frame.suvMax ?? -Infinity))
+                        };
+                    } catch (error) {
                         console.error(`Failed to convert file ${file.path}: ${error}`);
-                        return { skipped: false, error };
+                        if (!decoded) {
+                            volume = undefined;
+                        }
+                        return { file, frames: [] };
                     }
                 }));
 
-                // Create animated GIF after all images are processed
+                // Create the animation after all images are processed, in slice order
                 if (this.settings.createAnimatedGif) {
-                    const seriesName = group.targetPath.split('/').pop() || 'series';
-                    const gifPath = PathService.joinPath(group.targetPath, `${seriesName}.gif`);
+                    const frames = results.flatMap(result => result.frames);
+                    try {
+                        await this.dicomService.createAnimation(frames, this.dicomService.getAnimationPath(group.targetPath));
+                    } catch (error) {
+                        console.error(`Failed to create animation for series: ${error}`);
+                    }
+                }
+
+                // Frames of multi-frame files have no position of their own
+                if (this.settings.createMosaic) {
+                    const tiles = results.flatMap(result => result.frames.map(frame => ({
+                        frame,
+                        position: result.frames.length === 1 ? SliceOrder.getSlicePosition(result.file.dicomData) : undefined
+                    }))).map((tile, index) => ({ ...tile, sliceNumber: index + 1 }));
+                    try {
+                        await this.dicomService.createMosaic(tiles, this.dicomService.getMosaicPath(group.targetPath));
+                    } catch (error) {
+                        console.error(`Failed to create mosaic for series: ${error}`);
+                    }
+                }
+
+                // Reformats and projections, once the volume holds every slice
+                if (volume) {
                     try {
-                        await this.dicomService.createAnimatedGif(imagesPath, gifPath);
-                        
-                        // Small delay to ensure file system has registered the new GIF
-                        await new Promise(resolve => setTimeout(resolve, 100));
-                        
-                        // Create or update metadata note after GIF is created
-                        await this.metadataService.createMetadataNote(group.dicomData, group.targetPath);
+                        if (this.settings.createReformats) {
+                            await this.createReformats(group.targetPath, volume, options);
+                        }
+                        if (this.settings.createProjections) {
+                            await this.createProjections(group.targetPath, volume, options);
+                        }
                     } catch (error) {
-                        console.error(`Failed to create GIF for series: ${error}`);
-                        // Still create metadata note even if GIF fails
-                        await this.metadataService.createMetadataNote(group.dicomData, group.targetPath);
+                        console.error(`Failed to create reformats or projections for series: ${error}`);
                     }
-                } else {
-                    // Create metadata note without GIF
-                    await this.metadataService.createMetadataNote(group.dicomData, group.targetPath);
                 }
+
+                // PET series with an SUV calibration report their highest uptake
+                const highestSUV = Math.max(...results.map(result => result.suvMax ?? -Infinity));
+                const suvMax = Number.isFinite(highestSUV) ? highestSUV : undefined;
+
+                // Create or update the metadata note once the animations, mosaic, reformats and projections exist
+                await this.metadataService.createMetadataNote(group.dicomData, group.targetPath, suvMax);
             }
 
             // Archive original files if enabled
             if (this.settings.archiveDicomFiles) {
                 try {
-                    await this.archiveOriginalFiles(group, group.targetPath);
+                    await this.archiveOriginalFiles(group, group.targetPath, archive.archived);
                 } catch (error) {
                     if (!(error instanceof Error && error.message.includes('already exists'))) {
                         console.error(`Failed to archive original files: ${error}`);
@@ -166,13 +214,9 @@ export class BatchProcessor {
             }
 
             processedSeries++;
-            const progressMessage = skippedFiles > 0 
-                ? `Processing series ${processedSeries} of ${seriesGroups.size} (${skippedFiles} files skipped)`
-                : `Processing series ${processedSeries} of ${seriesGroups.size}`;
-            
             onProgress?.({
                 percentage: Math.min(90, 20 + Math.round((processedSeries / seriesGroups.size) * 70)),
-                message: progressMessage
+                message: `Processing series ${processedSeries} of ${seriesGroups.size}`
             });
         }
 
@@ -230,18 +274,45 @@ export class BatchProcessor {
                 return;
             }
 
-            const imageData = await this.dicomService.convertToImage(file);
+            const images = await this.dicomService.convertToImages(file);
             const imagesPath = path.join(basePath, 'Images').replace(/\\/g, '/');
             await this.ensureFolderPath(imagesPath);
 
-            const newFileName = `${file.basename}.png`;
-            const newPath = path.join(imagesPath, newFileName).replace(/\\/g, '/');
+            const newFileName = `${file.basename}.${this.dicomService.getImageExtension()}`;
+            const imagePath = path.join(imagesPath, newFileName).replace(/\\/g, '/');
+
+            // Multi-frame files produce one image per frame
+            for (let frameIndex = 0; frameIndex < images.length; frameIndex++) {
+                const newPath = this.dicomService.getFramePath(imagePath, frameIndex, images.length);
+                await this.writeImage(newPath, images[frameIndex].image);
+                const thumbnailPath = this.dicomService.getThumbnailPath(newPath);
+                const thumbnail = images[frameIndex].thumbnail;
+                if (thumbnail) {
+                    await this.ensureFolderPath(path.dirname(thumbnailPath));
+                    await this.writeImage(thumbnailPath, thumbnail);
+                }
+
+                // Window preset renderings go to their own folders
+                for (const preset of images[frameIndex].presets) {
+                    const presetPath = this.dicomService.getPresetPath(newPath, preset.name);
+                    await this.ensureFolderPath(path.dirname(presetPath));
+                    await this.writeImage(presetPath, preset.image);
+                    if (preset.thumbnail) {
+                        const presetThumbnailPath = this.dicomService.getPresetPath(thumbnailPath, preset.name);
+                        await this.ensureFolderPath(path.dirname(presetThumbnailPath));
+                        await this.writeImage(presetThumbnailPath, preset.thumbnail);
+                    }
+                }
+            }
 
-            const imageExists = await this.app.vault.adapter.exists(newPath);
-            if (!imageExists) {
-                const base64Data = imageData.replace(new RegExp(`^data:image/${this.settings.imageFormat};base64,`), '');
-                const binaryData = Buffer.from(base64Data, 'base64');
-                await this.app.vault.createBinary(newPath, binaryData);
+            // A multi-frame object such as an ultrasound loop or XA run gets its own animation
+            if (this.settings.createAnimatedGif && images.length > 1) {
+                try {
+                    await this.dicomService.createAnimation(images.map(image => image.display),
+                        this.dicomService.getAnimationPath(basePath, file.basename));
+                } catch (error) {
+                    console.error(`Failed to create animation for ${file.name}: ${error}`);
+                }
             }
 
             if (this.settings.archiveDicomFiles) {
@@ -263,25 +334,182 @@ export class BatchProcessor {
         }
     }
 
+    // Coronal and sagittal image sets next to Images, each with its own animation
+    private async createReformats(seriesPath: string, volume: Volume, options: ConversionOptions): Promise<void> {
+        const seriesName = seriesPath.split('/').pop() || 'series';
+        for (const plane of MultiplanarReformat.PLANES) {
+            const planePath = PathService.joinPath(seriesPath, MultiplanarReformat.getFolderName(plane));
+            await this.ensureFolderPath(planePath);
+
+            const frames = this.dicomService.renderReformat(volume, plane, options.seriesWindow);
+            for (let index = 0; index < frames.length; index++) {
+                const imageName = `${SliceOrder.getSliceName(index, frames.length)}.${this.dicomService.getImageExtension()}`;
+                await this.writeImage(PathService.joinPath(planePath, imageName), frames[index].image);
+            }
+            if (this.settings.createAnimatedGif) {
+                await this.dicomService.createAnimation(frames.map(frame => frame.display),
+                    this.dicomService.getAnimationPath(seriesPath, `${seriesName} ${plane}`));
+            }
+        }
+    }
+
+    // Whole-volume projections named by mode and axis, thick-slab MIPs with their own animation, and a
+    // rotating MIP animation, which is written even when series animations are off
+    private async createProjections(seriesPath: string, volume: Volume, options: ConversionOptions): Promise<void> {
+        const seriesName = seriesPath.split('/').pop() || 'series';
+        const extension = this.dicomService.getImageExtension();
+
+        const modes = VolumeProjection.MODES.filter(mode => this.settings.projectionModes.includes(mode));
+        if (modes.length > 0) {
+            const projectionsPath = PathService.joinPath(seriesPath, VolumeProjection.PROJECTIONS_FOLDER);
+            await this.ensureFolderPath(projectionsPath);
+            for (const mode of modes) {
+                for (const axis of VolumeProjection.AXES) {
+                    const name = `${VolumeProjection.getModeName(mode)} ${axis.charAt(0).toUpperCase()}${axis.slice(1)}`;
+                    const [frame] = this.dicomService.renderVolumeImages(volume, 1,
+                        () => VolumeProjection.project(volume, axis, mode), name.toUpperCase(), options.seriesWindow);
+                    await this.writeImage(PathService.joinPath(projectionsPath, `${name}.${extension}`), frame.image);
+                }
+            }
+        }
+
+        if (this.settings.slabThickness > 0) {
+            const slabPath = PathService.joinPath(seriesPath, VolumeProjection.SLAB_FOLDER);
+            await this.ensureFolderPath(slabPath);
+            const slabs = VolumeProjection.getSlabs(volume, this.settings.slabThickness);
+            const frames = this.dicomService.renderVolumeImages(volume, slabs.length,
+                index => VolumeProjection.slabMIP(volume, slabs[index]), 'SLAB MIP', options.seriesWindow);
+            for (let index = 0; index < frames.length; index++) {
+                const imageName = `${SliceOrder.getSliceName(index, frames.length)}.${extension}`;
+                await this.writeImage(PathService.joinPath(slabPath, imageName), frames[index].image);
+            }
+            if (this.settings.createAnimatedGif) {
+                await this.dicomService.createAnimation(frames.map(frame => frame.display),
+                    this.dicomService.getAnimationPath(seriesPath, `${seriesName} slab mip`));
+            }
+        }
+
+        if (this.settings.rotatingMIPFrames > 1) {
+            const views = VolumeProjection.rotatingMIP(volume, this.settings.rotatingMIPFrames);
+            const frames = this.dicomService.renderVolumeImages(volume, views.length,
+                index => views[index], 'ROTATING MIP', options.seriesWindow);
+            await this.dicomService.writeAnimation(frames.map(frame => frame.display),
+                this.dicomService.getAnimationPath(seriesPath, `${seriesName} rotating mip`));
+        }
+    }
+
+    // Files of a batch live outside the vault; describe them as TFiles for the DICOM service
+    private toTFile(file: { path: string; buffer: Buffer }): TFile {
+        const fileName = path.basename(file.path);
+        return {
+            path: file.path,
+            name: fileName,
+            basename: this.dicomService.normalizeFileName(path.parse(fileName).name),
+            extension: path.parse(fileName).ext.slice(1),
+            parent: null,
+            vault: this.app.vault,
+            stat: { mtime: Date.now(), ctime: Date.now(), size: file.buffer.length }
+        } as TFile;
+    }
+
+    private async writeImage(imagePath: string, dataUrl: string): Promise<void> {
+        const imageExists = await this.app.vault.adapter.exists(imagePath);
+        if (!imageExists) {
+            await this.app.vault.createBinary(imagePath, ImageFormats.fromDataURL(dataUrl));
+        }
+    }
+
+    // Originals of the series archived earlier are among the files, so they go to the trash and are written again
+    // under their new names
     private async archiveOriginalFiles(
         group: { files: { path: string; buffer: Buffer }[] },
-        targetPath: string
+        targetPath: string,
+        archived: TFile[]
     ): Promise<void> {
         const dicomPath = PathService.joinPath(targetPath, 'DICOM');
+        for (const file of archived) {
+            await this.app.vault.trash(file, true);
+        }
         await this.ensureFolderPath(dicomPath);
 
-        await Promise.all(group.files.map(async file => {
-            const normalizedNumber = this.dicomService.normalizeFileName(path.basename(file.path));
+        // Files arrive in slice order and take the same names as their images
+        await Promise.all(group.files.map(async (file, index) => {
+            const sliceName = SliceOrder.getSliceName(index, group.files.length);
             const extension = path.extname(file.path);
             // Add .dcm extension if enabled and file doesn't already have an extension
             const archivedName = this.settings.addDcmExtension && !extension
-                ? `${normalizedNumber}.dcm`
-                : `${normalizedNumber}${extension}`;
+                ? `${sliceName}.dcm`
+                : `${sliceName}${extension}`;
             const archivePath = PathService.joinPath(dicomPath, archivedName);
             await this.app.vault.createBinary(archivePath, file.buffer);
         }));
     }
 
+    // Originals archived for the series by an earlier import, except those the batch brings again. Archived files
+    // that are not DICOM or belong to another series are left out and left in place.
+    private async readArchivedFiles(
+        dicomPath: string,
+        seriesUID: string,
+        files: { dicomData: dicomParser.DataSet }[]
+    ): Promise<{ files: { path: string; buffer: Buffer; dicomData: dicomParser.DataSet }[]; archived: TFile[] }> {
+        const archive = { files: [] as { path: string; buffer: Buffer; dicomData: dicomParser.DataSet }[], archived: [] as TFile[] };
+        const folder = this.app.vault.getAbstractFileByPath(dicomPath);
+        if (!(folder instanceof TFolder)) {
+            return archive;
+        }
+
+        const incoming = new Set(files.map(file => file.dicomData.string(DicomTags.SOPInstanceUID)).filter(uid => uid));
+        for (const child of folder.children) {
+            if (!(child instanceof TFile)) {
+                continue;
+            }
+            try {
+                const arrayBuffer = await this.app.vault.readBinary(child);
+                const dicomData = this.dicomService.parseDicomData(arrayBuffer);
+                if (dicomData.string(DicomTags.SeriesInstanceUID) !== seriesUID) {
+                    continue;
+                }
+                archive.archived.push(child);
+                if (!incoming.has(dicomData.string(DicomTags.SOPInstanceUID))) {
+                    archive.files.push({ path: child.path, buffer: Buffer.from(arrayBuffer), dicomData });
+                }
+            } catch (error) {
+                console.warn(`Skipping archived file ${child.path}: ${error}`);
+            }
+        }
+        return archive;
+    }
+
+    // Outputs an earlier import derived from the series. Slice names kept from it may belong to other slices, and
+    // outputs this import does not make again, because a setting is off or no volume can be built, would no longer
+    // match the images.
+    private async clearSeriesOutputs(seriesPath: string): Promise<void> {
+        const seriesName = seriesPath.split('/').pop() || 'series';
+        const paths = [
+            'Images',
+            'Thumbnails',
+            ...MultiplanarReformat.PLANES.map(plane => MultiplanarReformat.getFolderName(plane)),
+            VolumeProjection.PROJECTIONS_FOLDER,
+            VolumeProjection.SLAB_FOLDER
+        ].map(folder => PathService.joinPath(seriesPath, folder));
+        paths.push(
+            this.dicomService.getMosaicPath(seriesPath),
+            this.dicomService.getAnimationPath(seriesPath),
+            ...[...MultiplanarReformat.PLANES, 'slab mip', 'rotating mip'].map(name =>
+                this.dicomService.getAnimationPath(seriesPath, `${seriesName} ${name}`))
+        );
+        for (const outputPath of paths) {
+            await this.moveToTrash(outputPath);
+        }
+    }
+
+    private async moveToTrash(outputPath: string): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(outputPath);
+        if (file) {
+            await this.app.vault.trash(file, true);
+        }
+    }
+
     private async ensureFolderPath(folderPath: string): Promise<void> {
         const parts = folderPath.split('/').filter(p => p.length > 0);
         let currentPath = '';
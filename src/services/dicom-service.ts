@@ -1,20 +1,56 @@
-import { TFile, App, Notice, TFolder, TAbstractFile } from 'obsidian';
+import { TFile, App, Notice } from 'obsidian';
 import dicomParser from 'dicom-parser';
 import { DICOMHandlerSettings } from '../settings';
 import { DicomTags } from '../models/dicom-tags';
-import { getDicomConverter } from '../utils/transfer-syntax';
+import { DecodedImage, DecodedFile, ConvertedFrame, FramePixels, DisplayFrame, AnimationOptions, MosaicTile, Volume } from '../models/types';
+import { getDicomConverter, isNativeTransferSyntax } from '../utils/transfer-syntax';
+import { DicomReader } from '../utils/dicom-reader';
+import { ColorConverter } from '../utils/color-converter';
+import { CineTiming } from '../utils/cine-timing';
+import { PaletteColorLUT } from '../utils/palette-color-lut';
+import { PixelUnpacker } from '../utils/pixel-unpacker';
+import { GrayscalePipeline, VOITransform, WindowSetting } from '../utils/grayscale-pipeline';
+import { ImageFormats } from '../utils/image-format';
+import { MosaicRenderer } from '../utils/mosaic-renderer';
+import { OverlayPlanes } from '../utils/overlay-planes';
+import { ImageAnnotator } from '../utils/image-annotator';
+import { ImageResampler } from '../utils/image-resampler';
+import { CropBounds, UltrasoundRegions } from '../utils/ultrasound-regions';
+import { ColorMap, ColorMaps } from '../utils/color-maps';
+import { SUVCalculator } from '../utils/suv-calculator';
+import { MultiplanarReformat, ReformatImage, ReformatPlane } from '../utils/multiplanar-reformat';
+import { PathService } from './path-service';
+import { JPEGBaselineDecoder } from '../codecs/jpeg-baseline';
+import { JPEGLosslessDecoder } from '../codecs/jpeg-lossless';
+import { RLEDecoder } from '../codecs/rle';
+import { JPEGLSDecoder } from '../codecs/jpeg-ls';
+import { PNGEncoder, PNGEncodeOptions } from '../codecs/png-encoder';
+import { JPEGEncoder } from '../codecs/jpeg-encoder';
+import { WebPEncoder } from '../codecs/webp-encoder';
+import { TIFFEncoder } from '../codecs/tiff-encoder';
+import { GIFEncoder } from '../codecs/gif-encoder';
+import { APNGEncoder } from '../codecs/apng-encoder';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 
-export class DICOMService {
-    private lastTransferSyntax: string | undefined;
+export interface ConversionOptions {
+    // Automatic window shared by every image of a series, used when an image has no window of its own
+    seriesWindow?: WindowSetting;
+}
+
+// Values sampled per frame for percentile windowing
+const PERCENTILE_SAMPLES_PER_FRAME = 16384;
+
+// Largest volume built for reformats and projections, 256 MB of values
+const MAX_VOLUME_VOXELS = 512 * 512 * 256;
 
+export class DICOMService {
     constructor(
         private app: App,
         private settings: DICOMHandlerSettings
     ) { }
 
-    private extractPixelData(dicomData: dicomParser.DataSet): { data: Buffer, needsDecompression: boolean } {
+    private extractPixelData(dicomData: dicomParser.DataSet, frameIndex = 0): { data: Buffer, needsDecompression: boolean } {
         const pixelDataElement = dicomData.elements[DicomTags.PixelData];
         if (!pixelDataElement) {
             throw new Error('No pixel data found in DICOM file');
@@ -25,22 +61,22 @@ export class DICOMService {
 
         // Handle raw pixel data (uncompressed)
         if (transferSyntax === '1.2.840.10008.1.2.1' || // Explicit VR Little Endian
+            transferSyntax === '1.2.840.10008.1.2.1.99' || // Deflated Explicit VR Little Endian (inflated by the reader)
             transferSyntax === '1.2.840.10008.1.2' ||    // Implicit VR Little Endian
             transferSyntax === '1.2.840.10008.1.2.2') {  // Explicit VR Big Endian
 
-            // Create a new buffer directly from dicomParser's byteArray, preserving correct offsets
-            const buffer = Buffer.from(dicomData.byteArray.buffer, dicomData.byteArray.byteOffset + pixelDataElement.dataOffset, pixelDataElement.length);
-
-            // Handle big endian data if needed
-            if (transferSyntax === '1.2.840.10008.1.2.2') {
-                // Swap bytes for big endian data
-                for (let i = 0; i < buffer.length; i += 2) {
-                    const temp = buffer[i];
-                    buffer[i] = buffer[i + 1];
-                    buffer[i + 1] = temp;
-                }
+            // Frames are stored back to back; a single-frame image uses the whole element
+            const frameCount = this.getNumberOfFrames(dicomData);
+            const frameLength = frameCount > 1 ? this.getUncompressedFrameLength(dicomData) : pixelDataElement.length;
+            if ((frameIndex + 1) * frameLength > pixelDataElement.length) {
+                throw new Error(`Pixel data is too short for frame ${frameIndex + 1} of ${frameCount}`);
             }
 
+            // Create a new buffer directly from dicomParser's byteArray, preserving correct offsets.
+            // Big endian samples are left as they are; PixelUnpacker reads them in the right byte order.
+            const buffer = Buffer.from(dicomData.byteArray.buffer,
+                dicomData.byteArray.byteOffset + pixelDataElement.dataOffset + frameIndex * frameLength, frameLength);
+
             return {
                 data: buffer,
                 needsDecompression: false
@@ -50,81 +86,109 @@ export class DICOMService {
         // Handle JPEG2000 compressed data
         if (transferSyntax === '1.2.840.10008.1.2.4.90' || // JPEG 2000 Lossless
             transferSyntax === '1.2.840.10008.1.2.4.91') { // JPEG 2000 Lossy
-            return this.extractJPEG2000Data(dicomData, pixelDataElement);
+            return this.extractEncapsulatedFrame(dicomData, pixelDataElement, frameIndex);
         }
 
-        // Handle JPEG Lossless compressed data
-        if (transferSyntax === '1.2.840.10008.1.2.4.70') { // JPEG Lossless
-            return this.extractJPEGLosslessData(dicomData, pixelDataElement);
+        // Handle formats decoded in-process (JPEG Baseline/Extended, JPEG Lossless, JPEG-LS, RLE)
+        if (transferSyntax && isNativeTransferSyntax(transferSyntax)) {
+            return this.extractEncapsulatedFrame(dicomData, pixelDataElement, frameIndex);
         }
 
         throw new Error(`Unsupported transfer syntax: ${transferSyntax}`);
     }
 
-    private extractJPEG2000Data(dicomData: dicomParser.DataSet, pixelDataElement: any): { data: Buffer, needsDecompression: boolean } {
-        const byteArray = new Uint8Array(dicomData.byteArray.buffer);
-        let position = pixelDataElement.dataOffset;
+    private extractEncapsulatedFrame(dicomData: dicomParser.DataSet, pixelDataElement: dicomParser.Element, frameIndex: number): { data: Buffer, needsDecompression: boolean } {
+        const fragments = pixelDataElement.fragments;
+        if (!pixelDataElement.encapsulatedPixelData || !fragments || fragments.length === 0) {
+            throw new Error('Compressed pixel data is not encapsulated');
+        }
 
-        // Skip Basic Offset Table if present
-        if (byteArray[position] === 0xFE && byteArray[position + 1] === 0xFF &&
-            byteArray[position + 2] === 0x00 && byteArray[position + 3] === 0xE0) {
-            const botLength =
-                byteArray[position + 4] |
-                (byteArray[position + 5] << 8) |
-                (byteArray[position + 6] << 16) |
-                (byteArray[position + 7] << 24);
-            position += 8 + botLength;
+        const frameCount = this.getNumberOfFrames(dicomData);
+        if (frameIndex >= frameCount) {
+            throw new Error(`Frame ${frameIndex + 1} requested from an image with ${frameCount} frames`);
         }
 
-        // Find JPEG2000 stream
-        if (position < byteArray.length - 8 &&
-            byteArray[position] === 0xFE && byteArray[position + 1] === 0xFF &&
-            byteArray[position + 2] === 0x00 && byteArray[position + 3] === 0xE0) {
+        let frameData: dicomParser.ByteArray | undefined = this.readExtendedOffsetTableFrame(dicomData, fragments, frameIndex);
+        if (!frameData) {
+            if (pixelDataElement.basicOffsetTable && pixelDataElement.basicOffsetTable.length > 0) {
+                frameData = dicomParser.readEncapsulatedImageFrame(dicomData, pixelDataElement, frameIndex);
+            } else if (frameCount === 1) {
+                // A single frame may span several fragments; without an offset table they all belong to it
+                frameData = dicomParser.readEncapsulatedPixelDataFromFragments(dicomData, pixelDataElement, 0, fragments.length);
+            } else if (frameCount === fragments.length) {
+                frameData = dicomParser.readEncapsulatedPixelDataFromFragments(dicomData, pixelDataElement, frameIndex, 1);
+            } else {
+                // Several fragments per frame and no offset table: delimit the frames by their JPEG EOI markers
+                const offsetTable = dicomParser.createJPEGBasicOffsetTable(dicomData, pixelDataElement);
+                frameData = dicomParser.readEncapsulatedImageFrame(dicomData, pixelDataElement, frameIndex, offsetTable);
+            }
+        }
 
-            const itemLength =
-                byteArray[position + 4] |
-                byteArray[position + 5] << 8 |
-                byteArray[position + 6] << 16 |
-                byteArray[position + 7] << 24;
+        return {
+            data: Buffer.from(frameData.buffer, frameData.byteOffset, frameData.length),
+            needsDecompression: true
+        };
+    }
 
-            position += 8;
+    // The Extended Offset Table (7FE0,0001) and its lengths (7FE0,0002) hold 64-bit values pointing at
+    // single-fragment frames, relative to the first fragment's item tag
+    private readExtendedOffsetTableFrame(dicomData: dicomParser.DataSet, fragments: dicomParser.Fragment[], frameIndex: number): dicomParser.ByteArray | undefined {
+        const offsetsElement = dicomData.elements[DicomTags.ExtendedOffsetTable];
+        const lengthsElement = dicomData.elements[DicomTags.ExtendedOffsetTableLengths];
+        if (!offsetsElement || !lengthsElement || (frameIndex + 1) * 8 > offsetsElement.length ||
+            (frameIndex + 1) * 8 > lengthsElement.length) {
+            return undefined;
+        }
 
-            const j2kData = Buffer.from(byteArray.buffer, byteArray.byteOffset + position, itemLength);
+        const byteArray = dicomData.byteArray;
+        const view = new DataView(byteArray.buffer, byteArray.byteOffset, byteArray.byteLength);
+        const readUint64 = (position: number) =>
+            view.getUint32(position, true) + view.getUint32(position + 4, true) * 0x100000000;
 
-            return {
-                data: j2kData,
-                needsDecompression: true
-            };
+        const offset = readUint64(offsetsElement.dataOffset + frameIndex * 8);
+        const length = readUint64(lengthsElement.dataOffset + frameIndex * 8);
+        const fragment = fragments.find(f => f.offset === offset);
+        if (!fragment) {
+            return undefined;
         }
+        return byteArray.subarray(fragment.position, fragment.position + Math.min(length, fragment.length));
+    }
 
-        throw new Error('Could not find JPEG2000 stream after Basic Offset Table');
+    public getNumberOfFrames(dicomData: dicomParser.DataSet): number {
+        return Math.max(1, dicomData.intString(DicomTags.NumberOfFrames) || 1);
     }
 
-    private extractJPEGLosslessData(dicomData: dicomParser.DataSet, pixelDataElement: any): { data: Buffer, needsDecompression: boolean } {
-        const byteArray = new Uint8Array(dicomData.byteArray.buffer);
-        let position = pixelDataElement.dataOffset;
+    private getUncompressedFrameLength(dicomData: dicomParser.DataSet): number {
+        const rows = dicomData.uint16(DicomTags.Rows) || 0;
+        const columns = dicomData.uint16(DicomTags.Columns) || 0;
+        const samplesPerPixel = dicomData.uint16(DicomTags.SamplesPerPixel) || 1;
+        const bitsAllocated = dicomData.uint16(DicomTags.BitsAllocated) || 16;
+        // 4:2:2 data stores two samples per pixel: the luminance plus one of the two shared chroma samples
+        const samplesStored = ColorConverter.is422(dicomData.string(DicomTags.PhotometricInterpretation))
+            ? 2 : samplesPerPixel;
+        return Math.ceil(rows * columns * samplesStored * bitsAllocated / 8);
+    }
 
-        // Find JPEG header (SOI marker: 0xFFD8)
-        while (position < byteArray.length - 2) {
-            if (byteArray[position] === 0xFF && byteArray[position + 1] === 0xD8) {
-                // Found JPEG header, now look for end marker (EOI: 0xFFD9)
-                let endPosition = position + 2;
-                while (endPosition < byteArray.length - 2) {
-                    if (byteArray[endPosition] === 0xFF && byteArray[endPosition + 1] === 0xD9) {
-                        // Found complete JPEG frame
-                        const jpegData = Buffer.from(byteArray.buffer, byteArray.byteOffset + position, endPosition - position + 2);
-                        return {
-                            data: jpegData,
-                            needsDecompression: true
-                        };
-                    }
-                    endPosition++;
-                }
-            }
-            position++;
+    // Multi-frame images get one output per frame, numbered after the source image's name
+    public getFramePath(targetPath: string, frameIndex: number, frameCount: number): string {
+        if (frameCount <= 1) {
+            return targetPath;
         }
+        const ext = path.extname(targetPath);
+        const base = targetPath.slice(0, targetPath.length - ext.length);
+        return `${base}-${String(frameIndex + 1).padStart(4, '0')}${ext}`;
+    }
+
+    // Thumbnails go into a Thumbnails folder next to the image's folder, under the same name
+    public getThumbnailPath(imagePath: string): string {
+        const imagesFolder = path.dirname(imagePath).replace(/\\/g, '/');
+        return PathService.joinPath(path.dirname(imagesFolder).replace(/\\/g, '/'), 'Thumbnails', path.basename(imagePath));
+    }
 
-        throw new Error('Could not find valid JPEG Lossless frame in DICOM data');
+    // Window preset renderings go into a folder named after the preset, next to the default image
+    public getPresetPath(imagePath: string, presetName: string): string {
+        return PathService.joinPath(path.dirname(imagePath).replace(/\\/g, '/'),
+            PathService.sanitizeFileName(presetName), path.basename(imagePath));
     }
 
     // Add this helper method to normalize filenames
@@ -140,203 +204,385 @@ export class DICOMService {
         return number.padStart(4, '0');
     }
 
-    async convertToImage(file: TFile, targetPath?: string): Promise<string> {
-        const tempFiles: string[] = [];
-
+    // Converts every frame of a DICOM file, returning one converted frame per frame. When a target path is given
+    // the images are also written to the vault; nothing is returned if they already exist there.
+    async convertToImages(file: TFile, targetPath?: string, options: ConversionOptions = {}): Promise<ConvertedFrame[]> {
         try {
             // If target path is specified, check if file exists
-            if (targetPath) {
-                try {
-                    // Check if file exists in vault
-                    const existingFile = this.app.vault.getAbstractFileByPath(
-                        targetPath.startsWith((this.app.vault.adapter as any).basePath) ?
-                            path.relative((this.app.vault.adapter as any).basePath, targetPath) : targetPath
-                    );
-                    if (existingFile) {
-                        // File exists, skip conversion and return empty string to signal skip
-                        return '';
-                    }
-                } catch (error) {
-                    // Error checking file existence, continue with conversion
-                    console.debug('Error checking file existence:', error);
-                }
+            if (targetPath && this.vaultFileExists(targetPath)) {
+                // File exists, skip conversion and return nothing to signal skip
+                return [];
             }
 
             const arrayBuffer = await this.loadDICOMFile(file);
             const dicomData = this.parseDicomData(arrayBuffer);
 
-            // Get and store transfer syntax before extracting pixel data
-            this.lastTransferSyntax = dicomData.string(DicomTags.TransferSyntaxUID) || 'default';
+            const frameCount = this.getNumberOfFrames(dicomData);
+            if (targetPath && frameCount > 1 && this.vaultFileExists(this.getFramePath(targetPath, 0, frameCount))) {
+                return [];
+            }
 
-            // Extract pixel data
-            const { data, needsDecompression } = this.extractPixelData(dicomData);
+            return await this.renderImages({ dicomData, frames: await this.decodeFrames(file, dicomData) }, targetPath, options);
+        } catch (error) {
+            console.error('Conversion failed:', error);
+            throw error;
+        }
+    }
 
-            let result: string;
+    // Reads and decodes every frame of a DICOM file, for series whose rendering depends on all their files
+    public async decodeFile(file: TFile): Promise<DecodedFile> {
+        const dicomData = this.parseDicomData(await this.loadDICOMFile(file));
+        return { dicomData, frames: await this.decodeFrames(file, dicomData) };
+    }
 
-            if (this.lastTransferSyntax === '1.2.840.10008.1.2.4.70') {  // JPEG Lossless
-                if (!this.settings.magickPath) {
-                    throw new Error('ImageMagick path is not configured');
+    // Renders the decoded frames of a file like convertToImages, writing them when a target path is given
+    public async renderImages(decoded: DecodedFile, targetPath?: string, options: ConversionOptions = {}): Promise<ConvertedFrame[]> {
+        const { dicomData, frames } = decoded;
+        const frameDelays = CineTiming.getFrameDelays(dicomData, frames.length);
+        const results: ConvertedFrame[] = [];
+        for (let frameIndex = 0; frameIndex < frames.length; frameIndex++) {
+            const result = this.renderFrame(frames[frameIndex], dicomData, frameIndex, options);
+            result.display.delay = frameDelays?.[frameIndex];
+            result.suvMax = this.getSUVMax(frames[frameIndex], dicomData);
+
+            // If a target path is specified, save the images
+            if (targetPath) {
+                const framePath = this.getFramePath(targetPath, frameIndex, frames.length);
+                const written = await this.saveImage(framePath, result.image);
+                if (!written) {
+                    continue;
                 }
+                const thumbnailPath = this.getThumbnailPath(framePath);
+                if (result.thumbnail) {
+                    await this.saveImage(thumbnailPath, result.thumbnail);
+                }
+                for (const preset of result.presets) {
+                    await this.saveImage(this.getPresetPath(framePath, preset.name), preset.image);
+                    if (preset.thumbnail) {
+                        await this.saveImage(this.getPresetPath(thumbnailPath, preset.name), preset.thumbnail);
+                    }
+                }
+            }
+            results.push(result);
+        }
+        return results;
+    }
 
-                // Create temporary files for JPEG processing
-                const os = require('os');
-                const crypto = require('crypto');
-                const hash = crypto.createHash('md5').update(file.basename).digest('hex').substring(0, 8);
-                const tempJpegPath = path.join(os.tmpdir(), `dicom_tmp_${hash}.jpg`);
-                const tempPngPath = path.join(os.tmpdir(), `dicom_tmp_${hash}.png`);
-                tempFiles.push(tempJpegPath, tempPngPath);
+    // Percentile window over the modality values of every grayscale frame in the given files, so all
+    // slices of a series share one brightness and contrast. Files are decoded one at a time and only samples
+    // of their values are kept. Undefined when there is nothing to window.
+    public async computeSeriesWindow(files: TFile[]): Promise<WindowSetting | undefined> {
+        const samples: Float32Array[] = [];
+        for (const file of files) {
+            const { dicomData, frames } = await this.decodeFile(file);
+            for (const pixels of frames) {
+                if (pixels.kind !== 'grayscale') {
+                    continue;
+                }
+                const values = GrayscalePipeline.applyModalityLUT(pixels.stored, dicomData);
+                samples.push(GrayscalePipeline.sampleValues(values, PERCENTILE_SAMPLES_PER_FRAME));
+            }
+        }
 
-                // Write JPEG data to temp file
-                await fs.writeFile(tempJpegPath, data);
+        if (samples.length === 0) {
+            return undefined;
+        }
 
-                // Convert JPEG to PNG using ImageMagick
-                await this.runImageMagickCommand(tempJpegPath, tempPngPath, ['-auto-level']);
+        const merged = new Float32Array(samples.reduce((total, frame) => total + frame.length, 0));
+        let offset = 0;
+        for (const frame of samples) {
+            merged.set(frame, offset);
+            offset += frame.length;
+        }
+        return GrayscalePipeline.getPercentileWindow(merged,
+            this.settings.autoWindowLowerPercentile, this.settings.autoWindowUpperPercentile);
+    }
 
-                // Read the converted PNG
-                const pngData = await fs.readFile(tempPngPath);
-                result = `data:image/png;base64,${pngData.toString('base64')}`;
-            } else {
-                // For all other formats, use our direct pixel manipulation
-                if (needsDecompression) {
-                    // For compressed data (e.g. JPEG 2000), decompress first
-                    const os = require('os');
-                    const crypto = require('crypto');
-                    const hash = crypto.createHash('md5').update(file.basename).digest('hex').substring(0, 8);
-                    const tempCompressedPath = path.join(os.tmpdir(), `dicom_tmp_${hash}.j2k`);
-                    const tempDecompressedPath = path.join(os.tmpdir(), `dicom_tmp_${hash}.pgm`);
-                    tempFiles.push(tempCompressedPath, tempDecompressedPath);
-
-                    // Write the compressed data
-                    await fs.writeFile(tempCompressedPath, data);
-
-                    // Decompress using OpenJPEG
-                    if (!this.settings.opjPath) {
-                        throw new Error('OpenJPEG path is not configured');
-                    }
-                    await this.runConverter(tempCompressedPath, tempDecompressedPath);
+    // Empty volume for files (in slice order) that form a regular axial stack, filled slice by slice with
+    // addVolumeSlice; undefined when they do not, or when the volume would be too large to hold in memory
+    public createVolume(dataSets: dicomParser.DataSet[]): Volume | undefined {
+        const geometry = MultiplanarReformat.getRegularStack(dataSets);
+        if (!geometry || geometry.columns * geometry.rows * dataSets.length > MAX_VOLUME_VOXELS) {
+            return undefined;
+        }
+        const values = new Float32Array(geometry.columns * geometry.rows * dataSets.length);
+        return { ...geometry, slices: dataSets.length, values, dataSet: dataSets[0] };
+    }
 
-                    // Read the decompressed data
-                    const decompressedData = await fs.readFile(tempDecompressedPath);
-                    result = await this.convertRawToImage(decompressedData, dicomData);
-                } else {
-                    // For uncompressed data, convert directly
-                    result = await this.convertRawToImage(data, dicomData);
-                }
-            }
+    // Stores the modality values of a decoded file as one slice of the volume; false when it has no matching slice
+    public addVolumeSlice(volume: Volume, sliceIndex: number, decoded: DecodedFile): boolean {
+        const [pixels] = decoded.frames;
+        if (pixels?.kind !== 'grayscale' || pixels.columns !== volume.columns || pixels.rows !== volume.rows) {
+            return false;
+        }
+        const sliceLength = volume.columns * volume.rows;
+        volume.values.set(GrayscalePipeline.applyModalityLUT(pixels.stored, decoded.dicomData), sliceIndex * sliceLength);
+        return true;
+    }
 
-            // If a target path is specified, save the PNG file
-            if (targetPath) {
-                const base64Data = result.replace(/^data:image\/png;base64,/, '');
-                const binaryData = Buffer.from(base64Data, 'base64');
+    // Coronal or sagittal images of a volume
+    public renderReformat(volume: Volume, plane: ReformatPlane, seriesWindow?: WindowSetting): ConvertedFrame[] {
+        return this.renderVolumeImages(volume, MultiplanarReformat.getImageCount(volume, plane),
+            index => MultiplanarReformat.reformat(volume, plane, index), `${plane.toUpperCase()} REFORMAT`, seriesWindow);
+    }
 
-                // Get the vault path for proper file handling
-                const vaultPath = (this.app.vault.adapter as any).basePath;
-                const absoluteTargetPath = targetPath.startsWith(vaultPath) ?
-                    targetPath : path.join(vaultPath, targetPath);
+    // Renders images computed from a volume, such as reformats and projections, described in the PNG metadata by
+    // the given image type. All images share one window, taken like that of the axial images but over the whole
+    // volume. They are always windowed 8-bit images without presets.
+    public renderVolumeImages(volume: Volume, count: number, getImage: (index: number) => ReformatImage, imageType: string, seriesWindow?: WindowSetting): ConvertedFrame[] {
+        const { dataSet } = volume;
+        const autoWindow = seriesWindow || (this.settings.autoWindowMode === 'percentile' && !GrayscalePipeline.hasStoredVOI(dataSet)
+            ? GrayscalePipeline.getPercentileWindow(GrayscalePipeline.sampleValues(volume.values, PERCENTILE_SAMPLES_PER_FRAME * 4),
+                this.settings.autoWindowLowerPercentile, this.settings.autoWindowUpperPercentile)
+            : undefined);
+        const voi = this.getSUVVOITransform(dataSet) || GrayscalePipeline.getVOITransform(dataSet, volume.values, autoWindow);
+        const inverted = GrayscalePipeline.isInverted(dataSet);
+        const colorMap = this.getColorMap(dataSet);
+
+        const metadata = this.getPNGMetadata(dataSet, 0, volume.columns, volume.rows, voi);
+        if (metadata.text) {
+            // The image belongs to the series, not to the first slice it was built from
+            delete metadata.text.SOPInstanceUID;
+            delete metadata.text.InstanceNumber;
+            metadata.text.ImageType = imageType;
+        }
 
-                // Ensure target directory exists
-                const targetDir = path.dirname(absoluteTargetPath);
-                await fs.mkdir(targetDir, { recursive: true });
+        const frames: ConvertedFrame[] = [];
+        for (let index = 0; index < count; index++) {
+            const image = getImage(index);
+            if (metadata.pixelsPerMeter) {
+                metadata.pixelsPerMeter = { x: 1000 / image.pixelSpacing, y: 1000 / image.pixelSpacing };
+            }
+            const display = ColorMaps.apply({ columns: image.columns, rows: image.rows, channels: 1,
+                samples: GrayscalePipeline.render(image.values, voi, inverted) }, colorMap);
+            frames.push({
+                image: this.encodeImage(display.samples, image.columns, image.rows, display.channels, metadata),
+                display,
+                presets: []
+            });
+        }
+        return frames;
+    }
 
-                try {
-                    // Create the file in the vault
-                    await this.app.vault.createBinary(
-                        targetPath.startsWith(vaultPath) ?
-                            path.relative(vaultPath, targetPath) : targetPath,
-                        binaryData
-                    );
-                } catch (error) {
-                    if (error instanceof Error && error.message.includes('already exists')) {
-                        // File was created between our check and creation attempt, skip it
-                        console.debug(`File ${targetPath} already exists, skipping`);
-                        return '';
-                    }
-                    throw error;
-                }
+    private async removeTempFiles(tempFiles: string[]): Promise<void> {
+        // Clean up temporary files
+        for (const tempPath of tempFiles) {
+            try {
+                await fs.access(tempPath).then(
+                    () => fs.unlink(tempPath),
+                    () => { /* File doesn't exist, no need to delete */ }
+                );
+            } catch (cleanupError) {
+                console.error('Failed to clean up temp file:', cleanupError);
             }
+        }
+    }
 
-            return result;
-        } catch (error) {
-            console.error('Conversion failed:', error);
-            throw error;
+    private async decodeFrames(file: TFile, dicomData: dicomParser.DataSet): Promise<FramePixels[]> {
+        const tempFiles: string[] = [];
+        try {
+            const frames: FramePixels[] = [];
+            for (let frameIndex = 0; frameIndex < this.getNumberOfFrames(dicomData); frameIndex++) {
+                frames.push(await this.readFramePixels(file, dicomData, frameIndex, tempFiles));
+            }
+            return frames;
         } finally {
-            // Clean up temporary files
-            for (const tempPath of tempFiles) {
-                try {
-                    await fs.access(tempPath).then(
-                        () => fs.unlink(tempPath),
-                        () => { /* File doesn't exist, no need to delete */ }
-                    );
-                } catch (cleanupError) {
-                    console.error('Failed to clean up temp file:', cleanupError);
+            await this.removeTempFiles(tempFiles);
+        }
+    }
+
+    // Decodes one frame into stored grayscale values or RGB, whatever the transfer syntax
+    private async readFramePixels(file: TFile, dicomData: dicomParser.DataSet, frameIndex: number, tempFiles: string[]): Promise<FramePixels> {
+        const transferSyntax = dicomData.string(DicomTags.TransferSyntaxUID) || 'default';
+
+        // Extract pixel data
+        const { data, needsDecompression } = this.extractPixelData(dicomData, frameIndex);
+
+        if (isNativeTransferSyntax(transferSyntax)) {
+            const decoded = this.decodeFrame(transferSyntax, data, dicomData);
+            // The JPEG decoder applies the stream's own YCbCr to RGB conversion
+            const isBaseline = transferSyntax === '1.2.840.10008.1.2.4.50' || transferSyntax === '1.2.840.10008.1.2.4.51';
+            const photometric = isBaseline && decoded.components === 3
+                ? 'RGB' : dicomData.string(DicomTags.PhotometricInterpretation);
+            return this.unpackDecodedFrame(decoded, photometric, dicomData);
+        }
+
+        // For all other formats, use our direct pixel manipulation
+        if (needsDecompression) {
+            // For compressed data (e.g. JPEG 2000), decompress first
+            const os = require('os');
+            const crypto = require('crypto');
+            const hash = crypto.createHash('md5').update(`${file.basename}_${frameIndex}`).digest('hex').substring(0, 8);
+            const tempCompressedPath = path.join(os.tmpdir(), `dicom_tmp_${hash}.j2k`);
+            // OpenJPEG writes grayscale as PGM and color as PPM
+            const samplesPerPixel = dicomData.uint16(DicomTags.SamplesPerPixel) || 1;
+            const tempDecompressedPath = path.join(os.tmpdir(), `dicom_tmp_${hash}.${samplesPerPixel === 3 ? 'ppm' : 'pgm'}`);
+            tempFiles.push(tempCompressedPath, tempDecompressedPath);
+
+            // Write the compressed data
+            await fs.writeFile(tempCompressedPath, data);
+
+            // Decompress using OpenJPEG
+            if (!this.settings.opjPath) {
+                throw new Error('OpenJPEG path is not configured');
+            }
+            await this.runConverter(transferSyntax, tempCompressedPath, tempDecompressedPath);
+
+            // Read the decompressed data; OpenJPEG has already undone any ICT/RCT color transform
+            const decompressedData = await fs.readFile(tempDecompressedPath);
+            const decoded = this.readPNM(decompressedData);
+            if (samplesPerPixel === 1 && dicomData.uint16(DicomTags.PixelRepresentation) === 1) {
+                // Signed samples come out shifted by half the range; flipping the sign bit restores two's complement
+                const signBit = 1 << ((dicomData.uint16(DicomTags.BitsStored) || decoded.bitsPerSample) - 1);
+                for (let i = 0; i < decoded.data.length; i++) {
+                    decoded.data[i] ^= signBit;
                 }
             }
+            const photometric = samplesPerPixel === 3 ? 'RGB' : dicomData.string(DicomTags.PhotometricInterpretation);
+            return this.unpackDecodedFrame(decoded, photometric, dicomData);
         }
+
+        // For uncompressed data, convert directly
+        return this.unpackRawFrame(data, dicomData);
     }
 
-    private async runImageMagickCommand(inputPath: string, outputPath: string, options: string[]): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const { exec } = require('child_process');
+    private renderFrame(pixels: FramePixels, dicomData: dicomParser.DataSet, frameIndex: number, options: ConversionOptions): ConvertedFrame {
+        let overlay = this.getOverlayMask(dicomData, frameIndex, pixels.columns, pixels.rows);
 
-            // Build the ImageMagick command with options
-            const command = `"${this.settings.magickPath}" "${inputPath}" ${options.join(' ')} "${outputPath}"`;
+        const crop = this.getCropBounds(dicomData);
+        if (crop && crop.x + crop.columns <= pixels.columns && crop.y + crop.rows <= pixels.rows) {
+            if (overlay) {
+                overlay = UltrasoundRegions.crop(overlay, pixels.columns, 1, crop, new Uint8Array(crop.columns * crop.rows));
+            }
+            pixels = this.cropPixels(pixels, crop);
+        }
 
-            exec(command, { windowsHide: true }, async (error: any, stdout: string, stderr: string) => {
-                if (error) {
-                    reject(new Error(`ImageMagick conversion failed: ${error.message}\n${stderr}`));
-                    return;
-                }
+        // Frames larger than the maximum output size are shrunk before rendering, so every output of the frame
+        // shares the limited size. Overlay pixels cover any output pixel they touch, so thin lines stay visible.
+        const { columns, rows } = ImageResampler.getLimitedSize(pixels.columns, pixels.rows, this.settings.maxImageDimension);
+        if (columns !== pixels.columns || rows !== pixels.rows) {
+            if (overlay) {
+                const coverage = ImageResampler.resample(overlay, pixels.columns, pixels.rows, 1, columns, rows);
+                overlay = Uint8Array.from(coverage, value => value > 0 ? 1 : 0);
+            }
+            pixels = this.resizePixels(pixels, columns, rows);
+        }
 
-                // Verify the output file exists and has content
-                try {
-                    const exists = await fs.access(outputPath)
-                        .then(() => true)
-                        .catch(() => false);
+        if (pixels.kind === 'color') {
+            return this.renderColor(pixels.rgb, pixels.columns, pixels.rows, dicomData, frameIndex, overlay);
+        }
+        return this.renderGrayscale(pixels.stored, pixels.columns, pixels.rows, dicomData, frameIndex, options.seriesWindow, overlay);
+    }
 
-                    if (!exists) {
-                        reject(new Error(`Output file not created at ${outputPath}`));
-                        return;
-                    }
+    // Ultrasound images are cropped to their scan regions when enabled
+    private getCropBounds(dicomData: dicomParser.DataSet): CropBounds | undefined {
+        if (!this.settings.cropUltrasoundRegions) {
+            return undefined;
+        }
+        return UltrasoundRegions.getCropBounds(UltrasoundRegions.read(dicomData),
+            dicomData.uint16(DicomTags.Columns) || 0, dicomData.uint16(DicomTags.Rows) || 0);
+    }
 
-                    const stats = await fs.stat(outputPath);
-                    if (stats.size === 0) {
-                        reject(new Error('Output file was created but is empty'));
-                        return;
-                    }
+    private cropPixels(pixels: FramePixels, crop: CropBounds): FramePixels {
+        const { columns, rows } = crop;
+        if (pixels.kind === 'color') {
+            return { kind: 'color', columns, rows, rgb: UltrasoundRegions.crop(pixels.rgb, pixels.columns, 3, crop, new Uint8Array(columns * rows * 3)) };
+        }
+        return { kind: 'grayscale', columns, rows, stored: UltrasoundRegions.crop(pixels.stored, pixels.columns, 1, crop, new Float64Array(columns * rows)) };
+    }
 
-                    resolve();
-                } catch (error: unknown) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-                    reject(new Error(`Failed to verify output file: ${errorMessage}`));
-                }
-            });
-        });
+    // Stored values are averaged and rounded, so they remain valid inputs to the Modality and VOI LUTs
+    private resizePixels(pixels: FramePixels, columns: number, rows: number): FramePixels {
+        if (pixels.kind === 'color') {
+            const frame = ImageResampler.resize({ columns: pixels.columns, rows: pixels.rows, channels: 3, samples: pixels.rgb }, columns, rows);
+            return { kind: 'color', columns, rows, rgb: frame.samples };
+        }
+        const values = ImageResampler.resample(pixels.stored, pixels.columns, pixels.rows, 1, columns, rows);
+        return { kind: 'grayscale', columns, rows, stored: Float64Array.from(values, value => Math.round(value)) };
+    }
+
+    // Overlay pixels of one frame when overlays are drawn. Embedded overlays are read from the unused high bits
+    // of the pixel words, which only uncompressed pixel data keeps.
+    private getOverlayMask(dicomData: dicomParser.DataSet, frameIndex: number, columns: number, rows: number): Uint8Array | undefined {
+        if (!this.settings.renderOverlays) {
+            return undefined;
+        }
+        const planes = OverlayPlanes.read(dicomData);
+        if (planes.length === 0) {
+            return undefined;
+        }
+
+        let pixelWords: ArrayLike<number> | undefined;
+        if (OverlayPlanes.hasEmbeddedPlanes(planes) && !dicomData.elements[DicomTags.PixelData]?.encapsulatedPixelData) {
+            const format = PixelUnpacker.getPixelFormat(dicomData);
+            pixelWords = PixelUnpacker.unpack(this.extractPixelData(dicomData, frameIndex).data, columns * rows,
+                { ...format, bitsStored: format.bitsAllocated, highBit: format.bitsAllocated - 1, pixelRepresentation: 0 });
+        }
+        return OverlayPlanes.getFrameMask(planes, frameIndex, columns, rows, pixelWords);
+    }
+
+    private vaultFileExists(targetPath: string): boolean {
+        try {
+            // Check if file exists in vault
+            const vaultPath = (this.app.vault.adapter as any).basePath;
+            const existingFile = this.app.vault.getAbstractFileByPath(
+                targetPath.startsWith(vaultPath) ? path.relative(vaultPath, targetPath) : targetPath
+            );
+            return !!existingFile;
+        } catch (error) {
+            // Error checking file existence, continue with conversion
+            console.debug('Error checking file existence:', error);
+            return false;
+        }
     }
 
-    private async runConverter(inputPath: string, outputPath: string): Promise<void> {
+    // Writes a data URL image into the vault; returns false if the file appeared in the meantime
+    private async saveImage(targetPath: string, dataUrl: string): Promise<boolean> {
+        const binaryData = ImageFormats.fromDataURL(dataUrl);
+
+        // Get the vault path for proper file handling
+        const vaultPath = (this.app.vault.adapter as any).basePath;
+        const absoluteTargetPath = targetPath.startsWith(vaultPath) ?
+            targetPath : path.join(vaultPath, targetPath);
+
+        // Ensure target directory exists
+        const targetDir = path.dirname(absoluteTargetPath);
+        await fs.mkdir(targetDir, { recursive: true });
+
+        try {
+            // Create the file in the vault
+            await this.app.vault.createBinary(
+                targetPath.startsWith(vaultPath) ?
+                    path.relative(vaultPath, targetPath) : targetPath,
+                binaryData
+            );
+            return true;
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('already exists')) {
+                // File was created between our check and creation attempt, skip it
+                console.debug(`File ${targetPath} already exists, skipping`);
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private async runConverter(transferSyntax: string, inputPath: string, outputPath: string): Promise<void> {
         return new Promise((resolve, reject) => {
             const { exec } = require('child_process');
 
             // Get the converter settings based on transfer syntax
-            const transferSyntax = this.lastTransferSyntax || 'default';
             const converter = getDicomConverter(transferSyntax);
 
             // Ensure paths are absolute and properly quoted
             const normalizedInputPath = path.resolve(inputPath);
             const normalizedOutputPath = path.resolve(outputPath);
 
-            // Build command based on the utility
-            let command;
-            if (converter.utility === 'magick') {
-                command = `"${this.settings.magickPath}" "${normalizedInputPath}" "${normalizedOutputPath}"`;
-            } else {
-                command = `"${this.settings.opjPath}" -i "${normalizedInputPath}" -o "${normalizedOutputPath}"`;
-            }
+            const command = `"${this.settings.opjPath}" -i "${normalizedInputPath}" -o "${normalizedOutputPath}"`;
 
             exec(command, { windowsHide: true }, async (error: any, stdout: string, stderr: string) => {
                 if (error) {
-                    const errorMsg = converter.utility === 'magick' ? 'ImageMagick conversion failed' : 'OpenJPEG conversion failed';
-                    reject(new Error(`${errorMsg}: ${error.message}\n${stderr}`));
+                    reject(new Error(`OpenJPEG conversion failed: ${error.message}\n${stderr}`));
                     return;
                 }
 
@@ -373,166 +619,392 @@ export class DICOMService {
         });
     }
 
-    private async convertRawToImage(pixelData: Buffer, dicomData: dicomParser.DataSet): Promise<string> {
-        try {
-            const columns = dicomData.uint16(DicomTags.Columns) || 0;
-            const rows = dicomData.uint16(DicomTags.Rows) || 0;
-            const bitsAllocated = dicomData.uint16(DicomTags.BitsAllocated) || 16;
-            const pixelRepresentation = dicomData.uint16(DicomTags.PixelRepresentation) || 0;
-            const samplesPerPixel = dicomData.uint16(DicomTags.SamplesPerPixel) || 1;
-            const transferSyntax = dicomData.string(DicomTags.TransferSyntaxUID);
-
-            const rescaleSlope = dicomData.floatString(DicomTags.RescaleSlope) || 1;
-            const rescaleIntercept = dicomData.floatString(DicomTags.RescaleIntercept) || 0;
-
-            // Handle PGM format from OpenJPEG
-            let pixels: Int16Array;
-            if (this.lastTransferSyntax === '1.2.840.10008.1.2.4.90') { // JPEG 2000
-                // Skip PGM header (P5\n + dimensions + max value)
-                let headerEnd = 0;
-                while (headerEnd < pixelData.length && pixelData[headerEnd] !== 0x0a) headerEnd++;
-                headerEnd++; // Skip first newline
-                while (headerEnd < pixelData.length && pixelData[headerEnd] !== 0x0a) headerEnd++;
-                headerEnd++; // Skip second newline
-                while (headerEnd < pixelData.length && pixelData[headerEnd] !== 0x0a) headerEnd++;
-                headerEnd++; // Skip third newline
-
-                // Read PGM data
-                pixels = new Int16Array(rows * columns);
-                for (let i = 0; i < rows * columns; i++) {
-                    pixels[i] = pixelData[headerEnd + i];
-                }
-            } else {
-                // Handle regular DICOM pixel data
-                const littleEndian = transferSyntax !== '1.2.840.10008.1.2.2';
-                pixels = new Int16Array(rows * columns);
-                const view = new DataView(pixelData.buffer, pixelData.byteOffset, pixelData.length);
+    private unpackRawFrame(pixelData: Buffer, dicomData: dicomParser.DataSet): FramePixels {
+        const columns = dicomData.uint16(DicomTags.Columns) || 0;
+        const rows = dicomData.uint16(DicomTags.Rows) || 0;
+        const photometric = dicomData.string(DicomTags.PhotometricInterpretation);
+        const format = PixelUnpacker.getPixelFormat(dicomData);
+        const pixelCount = rows * columns;
 
-                for (let i = 0; i < rows * columns && (i * 2 + 1) < pixelData.length; i++) {
-                    pixels[i] = view.getInt16(i * 2, littleEndian);
-                }
-            }
+        if (photometric === 'PALETTE COLOR') {
+            const indices = PixelUnpacker.unpack(pixelData, pixelCount, format);
+            return { kind: 'color', columns, rows, rgb: PaletteColorLUT.fromDataSet(dicomData).apply(indices, pixelCount) };
+        }
 
-            // Apply rescale slope and intercept
-            for (let i = 0; i < pixels.length; i++) {
-                pixels[i] = pixels[i] * rescaleSlope + rescaleIntercept;
-            }
+        if (ColorConverter.isColor(photometric, format.samplesPerPixel)) {
+            const is422 = ColorConverter.is422(photometric);
+            let samples: ArrayLike<number> = PixelUnpacker.unpack(pixelData, pixelCount * (is422 ? 2 : 3), format);
 
-            // Calculate window settings if not provided
-            let windowCenter = dicomData.floatString(DicomTags.WindowCenter);
-            let windowWidth = dicomData.floatString(DicomTags.WindowWidth);
-
-            if (!windowCenter || !windowWidth) {
-                // Auto window by scanning min/max values
-                let min = Number.MAX_VALUE;
-                let max = Number.MIN_VALUE;
-                for (let i = 0; i < pixels.length; i++) {
-                    min = Math.min(min, pixels[i]);
-                    max = Math.max(max, pixels[i]);
-                }
-                windowCenter = (max + min) / 2;
-                windowWidth = max - min;
+            if (is422) {
+                samples = ColorConverter.expand422(samples, columns, rows);
+            } else if ((dicomData.uint16(DicomTags.PlanarConfiguration) || 0) === 1) {
+                samples = ColorConverter.interleavePlanes(samples, pixelCount);
             }
 
-            // Convert to 8-bit using window/level
-            const lowValue = windowCenter - (windowWidth / 2);
-            const highValue = windowCenter + (windowWidth / 2);
-
-            // Create PNG header
-            const pngSignature = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
-            const ihdrChunk = this.createPNGChunk('IHDR', Buffer.from([
-                ...this.toBytes(columns, 4),
-                ...this.toBytes(rows, 4),
-                8,                              // Bit depth
-                0,                              // Color type (grayscale)
-                0,                              // Compression method
-                0,                              // Filter method
-                0                               // Interlace method
-            ]));
-
-            // Create image data with proper filter type handling
-            const scanlineLength = columns + 1;
-            const imageData = Buffer.alloc(rows * scanlineLength);
-
-            // Fill image data with normalized pixel values
-            let pixelIndex = 0;
-            for (let y = 0; y < rows; y++) {
-                imageData[y * scanlineLength] = 0; // Filter type 0 (None)
-                for (let x = 0; x < columns; x++) {
-                    const pixelValue = pixels[pixelIndex++];
-                    // Apply windowing transformation
-                    let normalized = (pixelValue - lowValue) / windowWidth;
-                    normalized = Math.max(0, Math.min(1, normalized));
-                    const intensity = Math.round(normalized * 255);
-                    imageData[y * scanlineLength + x + 1] = intensity;
+            return { kind: 'color', columns, rows, rgb: ColorConverter.toRGB(samples, pixelCount, photometric, format.bitsStored) };
+        }
+
+        return { kind: 'grayscale', columns, rows, stored: PixelUnpacker.unpack(pixelData, pixelCount, format) };
+    }
+
+    // Reads the binary PGM (P5) or PPM (P6) written by OpenJPEG; samples above 8 bits are big endian
+    private readPNM(fileData: Buffer): DecodedImage {
+        let position = 0;
+        const nextToken = (): string => {
+            // Skip whitespace and comments
+            while (position < fileData.length) {
+                const c = fileData[position];
+                if (c === 0x23) { // '#'
+                    while (position < fileData.length && fileData[position] !== 0x0a) position++;
+                } else if (c === 0x20 || c === 0x09 || c === 0x0a || c === 0x0d) {
+                    position++;
+                } else {
+                    break;
                 }
             }
+            const start = position;
+            while (position < fileData.length && fileData[position] > 0x20) position++;
+            return fileData.toString('ascii', start, position);
+        };
+
+        const magic = nextToken();
+        if (magic !== 'P5' && magic !== 'P6') {
+            throw new Error(`Unsupported decompressed image format: ${magic}`);
+        }
+        const width = parseInt(nextToken(), 10);
+        const height = parseInt(nextToken(), 10);
+        const maxValue = parseInt(nextToken(), 10);
+        position++; // Single whitespace before the samples
+
+        const components = magic === 'P6' ? 3 : 1;
+        const data = new Uint16Array(width * height * components);
+        const wide = maxValue > 255;
+        for (let i = 0; i < data.length; i++) {
+            data[i] = wide ? fileData.readUInt16BE(position + i * 2) : fileData[position + i];
+        }
+
+        return {
+            width,
+            height,
+            components,
+            bitsPerSample: Math.ceil(Math.log2(maxValue + 1)),
+            data
+        };
+    }
+
+    private decodeFrame(transferSyntax: string, data: Buffer, dicomData: dicomParser.DataSet): DecodedImage {
+        switch (transferSyntax) {
+            case '1.2.840.10008.1.2.4.50':  // JPEG Baseline
+            case '1.2.840.10008.1.2.4.51':  // JPEG Extended
+                // Without a marker in the stream, the dataset tells whether the components are YCbCr or RGB
+                return JPEGBaselineDecoder.decode(data, {
+                    unmarkedColorTransform: (dicomData.string(DicomTags.PhotometricInterpretation) || '').trim() !== 'RGB'
+                });
+            case '1.2.840.10008.1.2.4.57':  // JPEG Lossless
+            case '1.2.840.10008.1.2.4.70':  // JPEG Lossless SV1
+                return JPEGLosslessDecoder.decode(data);
+            case '1.2.840.10008.1.2.4.80':  // JPEG-LS Lossless
+            case '1.2.840.10008.1.2.4.81':  // JPEG-LS Near-Lossless
+                return JPEGLSDecoder.decode(data);
+            case '1.2.840.10008.1.2.5':     // RLE Lossless
+                return RLEDecoder.decode(data, {
+                    rows: dicomData.uint16(DicomTags.Rows) || 0,
+                    columns: dicomData.uint16(DicomTags.Columns) || 0,
+                    samplesPerPixel: dicomData.uint16(DicomTags.SamplesPerPixel) || 1,
+                    bitsAllocated: dicomData.uint16(DicomTags.BitsAllocated) || 16
+                });
+            default:
+                throw new Error(`No in-process decoder for transfer syntax: ${transferSyntax}`);
+        }
+    }
+
+    private unpackDecodedFrame(decoded: DecodedImage, photometric: string | undefined, dicomData: dicomParser.DataSet): FramePixels {
+        const { width: columns, height: rows } = decoded;
+        if (photometric === 'PALETTE COLOR') {
+            const rgb = PaletteColorLUT.fromDataSet(dicomData).apply(decoded.data, columns * rows);
+            return { kind: 'color', columns, rows, rgb };
+        }
+        if (ColorConverter.isColor(photometric, decoded.components)) {
+            const bitsStored = dicomData.uint16(DicomTags.BitsStored) || decoded.bitsPerSample;
+            const rgb = ColorConverter.toRGB(decoded.data, columns * rows, photometric, bitsStored);
+            return { kind: 'color', columns, rows, rgb };
+        }
+        const format = PixelUnpacker.getPixelFormat(dicomData);
+        return { kind: 'grayscale', columns, rows, stored: PixelUnpacker.fromDecoded(this.firstComponent(decoded), format) };
+    }
+
+    private firstComponent(decoded: DecodedImage): Uint16Array {
+        if (decoded.components === 1) {
+            return decoded.data;
+        }
+        const samples = new Uint16Array(decoded.width * decoded.height);
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] = decoded.data[i * decoded.components];
+        }
+        return samples;
+    }
 
-            // Compress image data
-            const deflate = require('zlib').deflateSync;
-            const compressedData = deflate(imageData);
-            const idatChunk = this.createPNGChunk('IDAT', compressedData);
-            const iendChunk = this.createPNGChunk('IEND', Buffer.alloc(0));
-
-            // Combine all chunks
-            const pngData = Buffer.concat([
-                pngSignature,
-                ihdrChunk,
-                idatChunk,
-                iendChunk
-            ]);
-
-            return `data:image/png;base64,${pngData.toString('base64')}`;
+    // Runs stored pixel values through the Modality, VOI and Presentation LUTs and encodes 8-bit grayscale images,
+    // one with the image's own VOI and one per window preset
+    private renderGrayscale(storedPixels: ArrayLike<number>, columns: number, rows: number, dicomData: dicomParser.DataSet, frameIndex: number, seriesWindow?: WindowSetting, overlay?: Uint8Array): ConvertedFrame {
+        try {
+            const values = GrayscalePipeline.applyModalityLUT(storedPixels, dicomData);
+            // Percentile windowing falls back to this image's own values outside a series
+            const autoWindow = seriesWindow || (this.settings.autoWindowMode === 'percentile' && !GrayscalePipeline.hasStoredVOI(dicomData)
+                ? GrayscalePipeline.getPercentileWindow(GrayscalePipeline.sampleValues(values, PERCENTILE_SAMPLES_PER_FRAME),
+                    this.settings.autoWindowLowerPercentile, this.settings.autoWindowUpperPercentile)
+                : undefined);
+            const inverted = GrayscalePipeline.isInverted(dicomData);
+            const colorMap = this.getColorMap(dicomData);
+            // Color maps and overlays turn a windowed rendering into RGB; the unwindowed 16-bit PNG is left without them
+            const renderDisplay = (voi: VOITransform): DisplayFrame => {
+                const frame = ColorMaps.apply({ columns, rows, channels: 1, samples: GrayscalePipeline.render(values, voi, inverted) }, colorMap);
+                return overlay ? OverlayPlanes.composite(frame, overlay, OverlayPlanes.parseColor(this.settings.overlayColor)) : frame;
+            };
+            const render = (voi: VOITransform) => {
+                const display = renderDisplay(voi);
+                return {
+                    image: this.encodeFrame(display, dicomData, frameIndex, voi),
+                    thumbnail: this.encodeThumbnail(display, dicomData, frameIndex, voi)
+                };
+            };
+
+            // The windowed 8-bit rendering is kept for animations, even when the image itself is 16-bit
+            const voi = this.getSUVVOITransform(dicomData) || GrayscalePipeline.getVOITransform(dicomData, values, autoWindow);
+            const display = renderDisplay(voi);
+            return {
+                image: this.settings.imageFormat === 'png16'
+                    ? this.encode16BitPNG(storedPixels, columns, rows, dicomData, this.getPNGMetadata(dicomData, frameIndex, columns, rows))
+                    : this.encodeFrame(display, dicomData, frameIndex, voi),
+                // A 16-bit image is unwindowed, so its windowed rendering stands in for it in the gallery
+                thumbnail: this.encodeThumbnail(display, dicomData, frameIndex, voi, this.settings.imageFormat === 'png16'),
+                display,
+                presets: this.getWindowPresets(dicomData).map(preset => ({
+                    name: preset.name,
+                    ...render(preset.voi)
+                }))
+            };
         } catch (error) {
-            console.error('Error during raw DICOM conversion:', error);
+            console.error('Error during image rendering:', error);
             throw error;
         }
     }
 
-    private toBytes(num: number, bytes: number): number[] {
-        const result = new Array(bytes);
-        for (let i = bytes - 1; i >= 0; i--) {
-            result[i] = num & 0xff;
-            num = num >> 8;
+    // PET and NM images are shown in the configured color map
+    private getColorMap(dicomData: dicomParser.DataSet): ColorMap {
+        const modality = (dicomData.string(DicomTags.Modality) || '').trim().toUpperCase();
+        return modality === 'PT' || modality === 'NM' ? this.settings.petColorMap : 'gray';
+    }
+
+    // Window from SUV 0 to the configured maximum, in the image's own units, for PET images with an SUV
+    // calibration; it replaces the stored and automatic windows
+    private getSUVVOITransform(dicomData: dicomParser.DataSet): VOITransform | undefined {
+        const factor = this.settings.suvWindowMax > 0 ? SUVCalculator.getSUVFactor(dicomData) : undefined;
+        if (!factor) {
+            return undefined;
         }
-        return result;
+        const width = this.settings.suvWindowMax / factor;
+        return { window: { center: width / 2, width }, func: 'LINEAR_EXACT' };
     }
 
-    private createPNGChunk(type: string, data: Buffer): Buffer {
-        const typeBytes = Buffer.from(type);
-        const length = data.length;
-        const chunk = Buffer.concat([
-            Buffer.from(this.toBytes(length, 4)),
-            typeBytes,
-            data
-        ]);
+    // Highest SUVbw of a decoded frame, taken before cropping or resizing can lower it
+    private getSUVMax(pixels: FramePixels, dicomData: dicomParser.DataSet): number | undefined {
+        const factor = SUVCalculator.getSUVFactor(dicomData);
+        if (factor === undefined || pixels.kind !== 'grayscale' || pixels.stored.length === 0) {
+            return undefined;
+        }
+        const values = GrayscalePipeline.applyModalityLUT(pixels.stored, dicomData);
+        let max = values[0];
+        for (let i = 1; i < values.length; i++) {
+            if (values[i] > max) {
+                max = values[i];
+            }
+        }
+        return max * factor;
+    }
+
+    // Extra windows stored in the file (the first one is the default rendering), followed by the
+    // user presets for the image's modality. Names are unique, the file's own windows come first.
+    private getWindowPresets(dicomData: dicomParser.DataSet): { name: string, voi: VOITransform }[] {
+        if (!this.settings.renderWindowPresets) {
+            return [];
+        }
 
-        // Calculate CRC
-        const crc = this.calculateCRC(Buffer.concat([typeBytes, data]));
-        return Buffer.concat([chunk, Buffer.from(this.toBytes(crc, 4))]);
+        const presets: { name: string, voi: VOITransform }[] = [];
+        const usedNames = new Set<string>();
+        const addPreset = (name: string, voi: VOITransform) => {
+            const key = PathService.sanitizeFileName(name).toLowerCase();
+            if (!usedNames.has(key)) {
+                usedNames.add(key);
+                presets.push({ name, voi });
+            }
+        };
+
+        const func = GrayscalePipeline.getVOILUTFunction(dicomData);
+        const windowCount = (dicomData.string(DicomTags.WindowCenter) || '').split('\\').length;
+        for (let i = 1; i < windowCount; i++) {
+            const center = dicomData.floatString(DicomTags.WindowCenter, i);
+            const width = dicomData.floatString(DicomTags.WindowWidth, i);
+            if (center === undefined || isNaN(center) || !width) {
+                continue;
+            }
+            const explanation = (dicomData.string(DicomTags.WindowCenterWidthExplanation, i) || '').trim();
+            addPreset(explanation || `Window ${i + 1}`, { window: { center, width }, func });
+        }
+
+        const modality = (dicomData.string(DicomTags.Modality) || '').trim().toUpperCase();
+        for (const preset of this.settings.windowPresets) {
+            if (preset.name && preset.modality.toUpperCase() === modality) {
+                addPreset(preset.name, { window: { center: preset.center, width: preset.width }, func: 'LINEAR' });
+            }
+        }
+        return presets;
     }
 
-    private calculateCRC(data: Buffer): number {
-        let crc = 0xffffffff;
-        const crcTable = this.createCRCTable();
+    // Color images have no VOI stage, so window presets do not apply
+    private renderColor(rgb: Uint8Array, columns: number, rows: number, dicomData: dicomParser.DataSet, frameIndex: number, overlay?: Uint8Array): ConvertedFrame {
+        let display: DisplayFrame = { columns, rows, channels: 3, samples: rgb };
+        if (overlay) {
+            display = OverlayPlanes.composite(display, overlay, OverlayPlanes.parseColor(this.settings.overlayColor));
+        }
+        return {
+            image: this.encodeFrame(display, dicomData, frameIndex),
+            thumbnail: this.encodeThumbnail(display, dicomData, frameIndex),
+            display,
+            presets: []
+        };
+    }
 
-        for (let i = 0; i < data.length; i++) {
-            crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    // Encodes a written 8-bit image, annotated when enabled
+    private encodeFrame(frame: DisplayFrame, dicomData: dicomParser.DataSet, frameIndex: number, voi?: VOITransform): string {
+        const annotated = this.annotateFrame(frame, dicomData, frameIndex, voi);
+        return this.encodeImage(annotated.samples, annotated.columns, annotated.rows, annotated.channels,
+            this.getPNGMetadata(dicomData, frameIndex, annotated.columns, annotated.rows, voi));
+    }
+
+    // Gallery copy of a rendering, fitted into a square of the thumbnail size but never enlarged. A rendering that
+    // already fits gets none, since the copy would repeat the image, unless the image is not that rendering.
+    private encodeThumbnail(frame: DisplayFrame, dicomData: dicomParser.DataSet, frameIndex: number, voi?: VOITransform, differsFromImage = false): string | undefined {
+        const size = this.settings.thumbnailSize;
+        const fits = Math.max(frame.columns, frame.rows) <= size;
+        if (!this.settings.createThumbnails || (fits && !differsFromImage)) {
+            return undefined;
+        }
+        return this.encodeFrame(fits ? frame : ImageResampler.fit(frame, size, size), dicomData, frameIndex, voi);
+    }
+
+    // Burns in the corner text and scale bar when enabled. Only written images are annotated; the frames kept for
+    // animations and the mosaic stay clean.
+    private annotateFrame(frame: DisplayFrame, dicomData: dicomParser.DataSet, frameIndex: number, voi?: VOITransform): DisplayFrame {
+        if (!this.settings.burnInAnnotations && !this.settings.burnInScaleBar) {
+            return frame;
         }
+        return ImageAnnotator.annotate(
+            frame,
+            this.settings.burnInAnnotations
+                ? ImageAnnotator.getCornerText(dicomData, frameIndex, this.getNumberOfFrames(dicomData), voi)
+                : undefined,
+            this.settings.burnInScaleBar ? this.getOutputPixelSpacing(dicomData, frame.columns, frame.rows)?.column : undefined
+        );
+    }
 
-        return crc ^ 0xffffffff;
+    // Pixel spacing of an output image, which is larger than the file's when the image was shrunk
+    private getOutputPixelSpacing(dicomData: dicomParser.DataSet, columns: number, rows: number): { row: number; column: number } | undefined {
+        const spacing = ImageAnnotator.getPixelSpacing(dicomData);
+        if (!spacing) {
+            return undefined;
+        }
+        const crop = this.getCropBounds(dicomData);
+        return {
+            row: spacing.row * (crop?.rows ?? (dicomData.uint16(DicomTags.Rows) || rows)) / rows,
+            column: spacing.column * (crop?.columns ?? (dicomData.uint16(DicomTags.Columns) || columns)) / columns
+        };
     }
 
-    private createCRCTable(): number[] {
-        const table = new Array(256);
-        for (let i = 0; i < 256; i++) {
-            let c = i;
-            for (let j = 0; j < 8; j++) {
-                c = ((c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1));
+    // Provenance written into PNG outputs so a copied image can be traced back to its series, and
+    // optionally the pixel spacing as the PNG's physical pixel size
+    private getPNGMetadata(dicomData: dicomParser.DataSet, frameIndex: number, columns: number, rows: number, voi?: VOITransform): PNGEncodeOptions {
+        const metadata: PNGEncodeOptions = {};
+
+        if (this.settings.embedImageMetadata) {
+            const text: Record<string, string> = { Source: 'DICOM' };
+            const addText = (keyword: string, value: string | undefined) => {
+                const trimmed = (value || '').trim();
+                if (trimmed) {
+                    text[keyword] = trimmed;
+                }
+            };
+            addText('StudyInstanceUID', dicomData.string(DicomTags.StudyInstanceUID));
+            addText('SeriesInstanceUID', dicomData.string(DicomTags.SeriesInstanceUID));
+            addText('SOPInstanceUID', dicomData.string(DicomTags.SOPInstanceUID));
+            addText('InstanceNumber', dicomData.string(DicomTags.InstanceNumber));
+            if (this.getNumberOfFrames(dicomData) > 1) {
+                addText('FrameNumber', String(frameIndex + 1));
             }
-            table[i] = c;
+            addText('Modality', dicomData.string(DicomTags.Modality));
+            addText('StudyDate', dicomData.string(DicomTags.StudyDate));
+            addText('SeriesDescription', dicomData.string(DicomTags.SeriesDescription));
+            if (voi && 'window' in voi) {
+                addText('WindowCenter', String(voi.window.center));
+                addText('WindowWidth', String(voi.window.width));
+                addText('VOILUTFunction', voi.func);
+            } else if (voi) {
+                addText('VOILUT', 'VOI LUT Sequence');
+            }
+            metadata.text = text;
         }
-        return table;
+
+        if (this.settings.embedPixelSpacing) {
+            const spacing = this.getOutputPixelSpacing(dicomData, columns, rows);
+            if (spacing) {
+                metadata.pixelsPerMeter = { x: 1000 / spacing.column, y: 1000 / spacing.row };
+            }
+        }
+        return metadata;
+    }
+
+    // Encodes 8-bit grayscale (1 channel) or RGB (3 channels) samples as a data URL in the configured format.
+    // 16-bit PNG output only changes the default grayscale rendering, so windowed and color images stay 8-bit PNGs.
+    private encodeImage(samples: Uint8Array, columns: number, rows: number, channels: 1 | 3, pngMetadata: PNGEncodeOptions = {}): string {
+        try {
+            const format = this.settings.imageFormat;
+            switch (format) {
+                case 'jpeg':
+                    return ImageFormats.toDataURL(JPEGEncoder.encode(samples, columns, rows, channels, this.settings.imageQuality), ImageFormats.getMimeType(format));
+                case 'webp':
+                    return ImageFormats.toDataURL(WebPEncoder.encode(samples, columns, rows, channels, this.settings.imageQuality), ImageFormats.getMimeType(format));
+                case 'tiff':
+                    return ImageFormats.toDataURL(TIFFEncoder.encode(samples, columns, rows, channels), ImageFormats.getMimeType(format));
+                default:
+                    return ImageFormats.toDataURL(PNGEncoder.encode(samples, columns, rows, channels, pngMetadata), ImageFormats.getMimeType('png'));
+            }
+        } catch (error) {
+            console.error('Error during image encoding:', error);
+            throw error;
+        }
+    }
+
+    // Stored values scaled to 16 bits (signed values offset to start at 0), with the original precision in sBIT.
+    // No VOI is applied, so the full dynamic range survives; MONOCHROME1 is still flipped to display polarity.
+    private encode16BitPNG(storedPixels: ArrayLike<number>, columns: number, rows: number, dicomData: dicomParser.DataSet, pngMetadata: PNGEncodeOptions): string {
+        const { bitsStored, pixelRepresentation } = PixelUnpacker.getPixelFormat(dicomData);
+        const offset = pixelRepresentation === 1 ? Math.pow(2, bitsStored - 1) : 0;
+        const scale = Math.pow(2, 16 - bitsStored);
+        const inverted = GrayscalePipeline.isInverted(dicomData);
+
+        const samples = new Uint16Array(columns * rows);
+        for (let i = 0; i < samples.length; i++) {
+            let value = Math.floor((storedPixels[i] + offset) * scale);
+            value = value < 0 ? 0 : value > 0xFFFF ? 0xFFFF : value;
+            samples[i] = inverted ? 0xFFFF - value : value;
+        }
+        const png = PNGEncoder.encode(samples, columns, rows, 1, { ...pngMetadata, bitDepth: 16, significantBits: Math.min(bitsStored, 16) });
+        return ImageFormats.toDataURL(png, ImageFormats.getMimeType('png16'));
+    }
+
+    // File extension of the configured output format
+    public getImageExtension(): string {
+        return ImageFormats.getExtension(this.settings.imageFormat);
     }
 
     private async cleanup(...paths: string[]): Promise<void> {
@@ -566,7 +1038,9 @@ export class DICOMService {
     public parseDicomData(arrayBuffer: ArrayBuffer): dicomParser.DataSet {
         try {
             const byteArray = new Uint8Array(arrayBuffer);
-            return dicomParser.parseDicom(byteArray);
+            return DicomReader.parse(byteArray, {
+                defaultTransferSyntax: this.settings.defaultTransferSyntax
+            });
         } catch (error) {
             throw error;
         }
@@ -603,61 +1077,92 @@ export class DICOMService {
         return reportText;
     }
 
-    async createAnimatedGif(imagesPath: string, outputPath: string): Promise<void> {
-        if (!this.settings.createAnimatedGif || !this.settings.magickPath) {
-            return;
+    // Animations sit next to the series note, named after the series folder unless a name is given
+    public getAnimationPath(seriesPath: string, name?: string): string {
+        const fileName = name || seriesPath.split('/').pop() || 'series';
+        return PathService.joinPath(seriesPath, `${fileName}.${ImageFormats.getAnimationExtension(this.settings.animationFormat)}`);
+    }
+
+    // Encodes in-memory frames as an animated GIF or APNG, replacing an earlier animation at the same path.
+    // Frames of a different size than the first are left out. Returns false if too few frames remain.
+    async createAnimation(frames: DisplayFrame[], outputPath: string): Promise<boolean> {
+        if (!this.settings.createAnimatedGif || frames.length === 0) {
+            return false;
         }
 
-        try {
-            // Get a list of PNG files in the Images folder
-            const imagesFolder = this.app.vault.getAbstractFileByPath(imagesPath);
-            if (!imagesFolder || !(imagesFolder instanceof TFolder)) {
-                console.error('Failed to create GIF - Images folder not found or invalid');
-                return;
-            }
+        const { columns, rows } = frames[0];
+        const sameSize = frames.filter(frame => frame.columns === columns && frame.rows === rows);
+        if (sameSize.length < this.settings.minImagesForGif) {
+            return false;
+        }
+        if (sameSize.length < frames.length) {
+            console.warn(`Animation ${outputPath}: skipped ${frames.length - sameSize.length} frames that are not ${columns}x${rows}`);
+        }
 
-            const pngFiles = imagesFolder.children
-                .filter((file: TAbstractFile): file is TFile =>
-                    file instanceof TFile && file.extension === 'png')
-                .sort((a, b) => a.name.localeCompare(b.name));
+        await this.writeAnimation(this.orderAnimationFrames(sameSize), outputPath);
+        return true;
+    }
 
-            if (pngFiles.length < this.settings.minImagesForGif) {
-                return;
-            }
+    // Encodes frames as they are, in the configured animation format, replacing an earlier file at the same path
+    async writeAnimation(sequence: DisplayFrame[], outputPath: string): Promise<void> {
+        const options: AnimationOptions = {
+            // Frames play at their own cine timing; the configured delay covers frames without one
+            delays: sequence.map(frame => frame.delay ?? this.settings.gifFrameDelay),
+            loopCount: this.settings.animationLoopCount,
+            dither: this.settings.gifDithering
+        };
+        const data = this.settings.animationFormat === 'apng'
+            ? APNGEncoder.encode(sequence, options)
+            : GIFEncoder.encode(sequence, options);
+
+        const existing = this.app.vault.getAbstractFileByPath(outputPath);
+        if (existing instanceof TFile) {
+            await this.app.vault.modifyBinary(existing, data);
+        } else {
+            await this.app.vault.createBinary(outputPath, data);
+        }
+    }
 
-            // Get the vault path for constructing absolute paths
-            const vaultPath = (this.app.vault.adapter as any).basePath;
+    public getMosaicPath(seriesPath: string): string {
+        return PathService.joinPath(seriesPath, MosaicRenderer.getFileName(seriesPath.split('/').pop() || 'series'));
+    }
 
-            return new Promise((resolve, reject) => {
-                const { exec } = require('child_process');
+    // Renders a contact sheet of the series as a PNG, replacing an earlier one at the same path
+    async createMosaic(tiles: MosaicTile[], outputPath: string): Promise<boolean> {
+        if (!this.settings.createMosaic) {
+            return false;
+        }
 
-                // Use wildcards for input and normalize paths
-                const inputPattern = path.join(vaultPath, imagesPath, '*.png').replace(/\\/g, '/');
-                const absoluteOutputPath = path.join(vaultPath, outputPath).replace(/\\/g, '/');
+        const sheet = MosaicRenderer.render(tiles, {
+            columns: this.settings.mosaicColumns,
+            rows: this.settings.mosaicRows,
+            interval: this.settings.mosaicInterval,
+            tileSize: this.settings.mosaicTileSize,
+            labels: this.settings.mosaicLabels
+        });
+        if (!sheet) {
+            return false;
+        }
 
-                // ImageMagick command with wildcard pattern
-                const command = `"${this.settings.magickPath}" -delay ${this.settings.gifFrameDelay / 10} "${inputPattern}" -loop 0 "${absoluteOutputPath}"`;
+        const data = PNGEncoder.encode(sheet.samples, sheet.columns, sheet.rows, sheet.channels);
+        const existing = this.app.vault.getAbstractFileByPath(outputPath);
+        if (existing instanceof TFile) {
+            await this.app.vault.modifyBinary(existing, data);
+        } else {
+            await this.app.vault.createBinary(outputPath, data);
+        }
+        return true;
+    }
 
-                exec(command, {
-                    windowsHide: true,
-                    maxBuffer: 1024 * 1024 * 100,
-                    env: {
-                        ...process.env,
-                        MAGICK_CONFIGURE_PATH: path.dirname(this.settings.magickPath)
-                    }
-                }, (error: any, stdout: string, stderr: string) => {
-                    if (error) {
-                        console.error(`GIF creation failed - ImageMagick error: ${error.message}`);
-                        if (stderr) console.error(`ImageMagick stderr: ${stderr}`);
-                        reject(new Error(`Failed to create animated GIF: ${error.message}`));
-                        return;
-                    }
-                    resolve();
-                });
-            });
-        } catch (error) {
-            console.error(`GIF creation failed - Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            throw error;
+    // Bounce plays forward then backward without showing the end frames twice
+    private orderAnimationFrames(frames: DisplayFrame[]): DisplayFrame[] {
+        switch (this.settings.animationFrameOrder) {
+            case 'reverse':
+                return frames.slice().reverse();
+            case 'bounce':
+                return [...frames, ...frames.slice(1, -1).reverse()];
+            default:
+                return frames;
         }
     }
 
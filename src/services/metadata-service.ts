@@ -2,6 +2,12 @@ import { App, TFile, TFolder } from 'obsidian';
 import { DicomTags } from '../models/dicom-tags';
 import { DicomModalities } from '../models/dicom-modalities';
 import { HL7Parser } from '../utils/hl7-parser';
+import { ImageFormats } from '../utils/image-format';
+import { ImageResampler } from '../utils/image-resampler';
+import { MosaicRenderer } from '../utils/mosaic-renderer';
+import { UltrasoundRegions } from '../utils/ultrasound-regions';
+import { MultiplanarReformat } from '../utils/multiplanar-reformat';
+import { VolumeProjection } from '../utils/volume-projection';
 import { PathService } from './path-service';
 import { DICOMHandlerSettings } from '../settings';
 import * as path from 'path';
@@ -66,7 +72,8 @@ export class MetadataService {
         return false;
     }
 
-    public async createMetadataNote(dataset: dicomParser.DataSet, folderPath: string): Promise<void> {
+    // The series' highest body-weight SUV, when known, is reported with the PET series
+    public async createMetadataNote(dataset: dicomParser.DataSet, folderPath: string, suvMax?: number): Promise<void> {
         try {
             const sopClassUID = dataset.string(DicomTags.SOPClassUID);
             const isStructuredReport = sopClassUID === '1.2.840.10008.5.1.4.1.1.88.11' ||
@@ -77,6 +84,7 @@ export class MetadataService {
             const metadata: Record<string, any> = {};
             const tagsToSkip = new Set([
                 DicomTags.PixelData,
+                DicomTags.SequenceOfUltrasoundRegions,
                 'x7fe00010',
                 'x00880200',
                 'x00880904',
@@ -146,6 +154,10 @@ export class MetadataService {
                     content += `${key}: ${value}\n`;
                 }
             }
+            if (suvMax !== undefined) {
+                content += `suv_max: ${suvMax.toFixed(2)}\n`;
+            }
+            content += this.buildUltrasoundRegions(dataset);
             content += '---\n\n';
 
             const seriesDesc = dataset.string(DicomTags.SeriesDescription) || 'DICOM Series';
@@ -153,6 +165,15 @@ export class MetadataService {
             const titleDate = studyDate ? `${studyDate} - ` : '';
 
             content += `# ${titleDate}${seriesDesc}\n\n`;
+
+            // The series mosaic, when there is one, gives an overview before the details
+            const folderBaseName = folderPath.split('/').pop() || 'series';
+            const mosaicFile = this.app.vault.getAbstractFileByPath(
+                PathService.joinPath(folderPath, MosaicRenderer.getFileName(folderBaseName)));
+            if (mosaicFile instanceof TFile) {
+                content += `## Overview\n\n`;
+                content += `![[${mosaicFile.path}]]\n\n`;
+            }
             content += `## DICOM Information\n\n`;
 
             const patientName = dataset.string(DicomTags.PatientName);
@@ -170,6 +191,7 @@ export class MetadataService {
 
             if (dataset.string(DicomTags.StudyDescription)) content += `**Study Type:** ${dataset.string(DicomTags.StudyDescription)}\n`;
             if (dataset.string(DicomTags.SeriesDescription)) content += `**Series Type:** ${dataset.string(DicomTags.SeriesDescription)}\n`;
+            if (suvMax !== undefined) content += `**SUVmax (body weight):** ${suvMax.toFixed(2)}\n`;
 
             const studyPhysician = dataset.string(DicomTags.StudyPhysician);
             if (studyPhysician && this.isLikelyName(studyPhysician)) {
@@ -202,48 +224,73 @@ export class MetadataService {
 
             if (!isStructuredReport) {
                 const seriesName = folderPath.split('/').pop() || 'series';
-                const gifPath = path.join(folderPath, `${seriesName}.gif`).replace(/\\/g, '/');
-                const gifFile = this.app.vault.getAbstractFileByPath(gifPath);
+                const animationExtension = ImageFormats.getAnimationExtension(this.settings.animationFormat);
+                const animationPath = path.join(folderPath, `${seriesName}.${animationExtension}`).replace(/\\/g, '/');
+                const animationFile = this.app.vault.getAbstractFileByPath(animationPath);
 
-                if (gifFile instanceof TFile) {
+                if (animationFile instanceof TFile) {
                     content += `## Animation\n\n`;
-                    content += `![[${gifFile.name}]]\n\n`;
+                    content += `![[${animationFile.name}]]\n\n`;
                 }
 
                 const imagesPath = `${folderPath}/Images`.replace(/\\/g, '/');
                 const imagesFolder = this.app.vault.getAbstractFileByPath(imagesPath);
 
                 if (imagesFolder instanceof TFolder) {
-                    const imageFiles = imagesFolder.children
-                        .filter(file => file instanceof TFile && file.extension === 'png')
-                        .sort((a, b) => {
-                            // Extract numbers from filenames for numeric sorting
-                            const aNum = parseInt((a.name.match(/\d+/) || ['0'])[0]);
-                            const bNum = parseInt((b.name.match(/\d+/) || ['0'])[0]);
-                            return aNum - bNum;
-                        });
-
-                    if (imageFiles.length > 0) {
-                        content += `## Gallery\n\n`;
-                        let lineContent = '';
-                        const width = this.settings.galleryImageWidth || 150;
-
-                        imageFiles.forEach((file, index) => {
-                            lineContent += `![[${file.name}|${width}]]`;
-                            // Add a newline every 4 images for better layout
-                            if ((index + 1) % 4 === 0 || index === imageFiles.length - 1) {
-                                content += lineContent + '\n';
-                                lineContent = '';
-                            } else {
-                                lineContent += ' ';
-                            }
-                        });
-                        if (lineContent) {
-                            content += lineContent + '\n';
-                        }
-                        content += '\n';
+                    // Thumbnails mirror Images, including its preset subfolders
+                    const thumbnailsPath = `${folderPath}/Thumbnails`.replace(/\\/g, '/');
+                    content += this.buildGallery('Gallery', imagesFolder, false, thumbnailsPath);
+
+                    // Window preset image sets live in subfolders of Images; their file names repeat the
+                    // default set's, so they are embedded by full path
+                    const presetFolders = imagesFolder.children
+                        .filter((child): child is TFolder => child instanceof TFolder)
+                        .sort((a, b) => a.name.localeCompare(b.name));
+                    for (const presetFolder of presetFolders) {
+                        content += this.buildGallery(`Gallery - ${presetFolder.name}`, presetFolder, true,
+                            `${thumbnailsPath}/${presetFolder.name}`);
                     }
                 }
+
+                // Coronal and sagittal reformats sit next to Images, each with its own animation
+                for (const plane of MultiplanarReformat.PLANES) {
+                    const planeName = MultiplanarReformat.getFolderName(plane);
+                    const planeFolder = this.app.vault.getAbstractFileByPath(`${folderPath}/${planeName}`.replace(/\\/g, '/'));
+                    if (!(planeFolder instanceof TFolder)) {
+                        continue;
+                    }
+                    const planeAnimation = this.app.vault.getAbstractFileByPath(
+                        path.join(folderPath, `${seriesName} ${plane}.${animationExtension}`).replace(/\\/g, '/'));
+                    if (planeAnimation instanceof TFile) {
+                        content += `## Animation - ${planeName}\n\n`;
+                        content += `![[${planeAnimation.name}]]\n\n`;
+                    }
+                    content += this.buildGallery(`Gallery - ${planeName}`, planeFolder, true);
+                }
+
+                // Intensity projections: the rotating MIP, whole-volume projections and thick-slab MIPs
+                const rotatingMIP = this.app.vault.getAbstractFileByPath(
+                    path.join(folderPath, `${seriesName} rotating mip.${animationExtension}`).replace(/\\/g, '/'));
+                if (rotatingMIP instanceof TFile) {
+                    content += `## Rotating MIP\n\n`;
+                    content += `![[${rotatingMIP.name}]]\n\n`;
+                }
+                const projectionsFolder = this.app.vault.getAbstractFileByPath(
+                    `${folderPath}/${VolumeProjection.PROJECTIONS_FOLDER}`.replace(/\\/g, '/'));
+                if (projectionsFolder instanceof TFolder) {
+                    content += this.buildGallery('Projections', projectionsFolder, true);
+                }
+                const slabFolder = this.app.vault.getAbstractFileByPath(
+                    `${folderPath}/${VolumeProjection.SLAB_FOLDER}`.replace(/\\/g, '/'));
+                if (slabFolder instanceof TFolder) {
+                    const slabAnimation = this.app.vault.getAbstractFileByPath(
+                        path.join(folderPath, `${seriesName} slab mip.${animationExtension}`).replace(/\\/g, '/'));
+                    if (slabAnimation instanceof TFile) {
+                        content += `## Animation - ${VolumeProjection.SLAB_FOLDER}\n\n`;
+                        content += `![[${slabAnimation.name}]]\n\n`;
+                    }
+                    content += this.buildGallery(`Gallery - ${VolumeProjection.SLAB_FOLDER}`, slabFolder, true);
+                }
             }
 
             const folderName = folderPath.split('/').pop() || 'series';
@@ -272,6 +319,87 @@ export class MetadataService {
         }
     }
 
+    // Series notes carry the series' UID in their frontmatter, which traces exported images back to them
+    public findSeriesNote(seriesInstanceUID: string): TFile | null {
+        const key = DicomTags.getDescriptiveName(DicomTags.SeriesInstanceUID);
+        return this.app.vault.getMarkdownFiles().find(file =>
+            String(this.app.metadataCache.getFileCache(file)?.frontmatter?.[key] ?? '').trim() === seriesInstanceUID.trim()
+        ) || null;
+    }
+
+    // Frontmatter list with the calibration of each ultrasound region, in pixels of the exported images: cropping
+    // moves the regions and shrinking scales them along with their physical pixel size
+    private buildUltrasoundRegions(dataset: dicomParser.DataSet): string {
+        const regions = UltrasoundRegions.read(dataset);
+        if (regions.length === 0) {
+            return '';
+        }
+
+        const columns = dataset.uint16(DicomTags.Columns) || 0;
+        const rows = dataset.uint16(DicomTags.Rows) || 0;
+        const crop = (this.settings.cropUltrasoundRegions && UltrasoundRegions.getCropBounds(regions, columns, rows))
+            || { x: 0, y: 0, columns, rows };
+        const output = ImageResampler.getLimitedSize(crop.columns, crop.rows, this.settings.maxImageDimension);
+        const scaleX = crop.columns ? output.columns / crop.columns : 1;
+        const scaleY = crop.rows ? output.rows / crop.rows : 1;
+        const round = (value: number) => Math.round(value * 1000) / 1000;
+
+        let content = `${DicomTags.getDescriptiveName(DicomTags.SequenceOfUltrasoundRegions)}:\n`;
+        for (const region of regions) {
+            content += `  - data_type: "${UltrasoundRegions.getDataTypeName(region.dataType)}"\n`;
+            content += `    spatial_format: "${UltrasoundRegions.getSpatialFormatName(region.spatialFormat)}"\n`;
+            content += `    min_x: ${round((region.minX - crop.x) * scaleX)}\n`;
+            content += `    min_y: ${round((region.minY - crop.y) * scaleY)}\n`;
+            content += `    max_x: ${round((region.maxX + 1 - crop.x) * scaleX - 1)}\n`;
+            content += `    max_y: ${round((region.maxY + 1 - crop.y) * scaleY - 1)}\n`;
+            content += `    physical_units_x: "${UltrasoundRegions.getUnitName(region.unitsX)}"\n`;
+            content += `    physical_units_y: "${UltrasoundRegions.getUnitName(region.unitsY)}"\n`;
+            content += `    physical_delta_x: ${Number((region.deltaX / scaleX).toPrecision(6))}\n`;
+            content += `    physical_delta_y: ${Number((region.deltaY / scaleY).toPrecision(6))}\n`;
+            // The reference pixel is relative to the region's top-left pixel
+            if (region.referenceX !== undefined) content += `    reference_pixel_x: ${round(region.referenceX * scaleX)}\n`;
+            if (region.referenceY !== undefined) content += `    reference_pixel_y: ${round(region.referenceY * scaleY)}\n`;
+            if (region.referenceValueX !== undefined) content += `    reference_value_x: ${region.referenceValueX}\n`;
+            if (region.referenceValueY !== undefined) content += `    reference_value_y: ${region.referenceValueY}\n`;
+        }
+        return content;
+    }
+
+    // Images with a thumbnail of the same name in the given folder are shown through it, embedded by path
+    private buildGallery(title: string, folder: TFolder, embedByPath: boolean, thumbnailsPath?: string): string {
+        const imageFiles = folder.children
+            .filter((file): file is TFile => file instanceof TFile && ImageFormats.isImageExtension(file.extension))
+            // Numeric collation keeps frames (0012-0001, 0012-0002, ...) in order after their image number
+            .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+        if (imageFiles.length === 0) {
+            return '';
+        }
+
+        let content = `## ${title}\n\n`;
+        let lineContent = '';
+        const width = this.settings.galleryImageWidth || 150;
+
+        imageFiles.forEach((file, index) => {
+            const thumbnail = thumbnailsPath && this.app.vault.getAbstractFileByPath(`${thumbnailsPath}/${file.name}`);
+            lineContent += thumbnail instanceof TFile
+                ? `![[${thumbnail.path}|${width}]]`
+                : `![[${embedByPath ? file.path : file.name}|${width}]]`;
+            // Add a newline every 4 images for better layout
+            if ((index + 1) % 4 === 0 || index === imageFiles.length - 1) {
+                content += lineContent + '\n';
+                lineContent = '';
+            } else {
+                lineContent += ' ';
+            }
+        });
+        if (lineContent) {
+            content += lineContent + '\n';
+        }
+        content += '\n';
+        return content;
+    }
+
     public async createStudyMetadataNote(studyInstanceUID: string, studyData: {
         dicomData: dicomParser.DataSet,
         seriesPaths: string[]
@@ -29,27 +29,4 @@ export class ViewerService {
         this.container.empty();
         this.container.appendChild(img);
     }
-
-    private async updateGif(seriesPath: string): Promise<void> {
-        try {
-            // Remove any existing series-level GIF first
-            const seriesName = seriesPath.split('/').pop() || 'series';
-            const gifPath = path.join(seriesPath, `${seriesName}.gif`).replace(/\\/g, '/');
-            const gifFile = this.app.vault.getAbstractFileByPath(gifPath);
-            if (gifFile instanceof TFile) {
-                await this.app.vault.delete(gifFile);
-            }
-
-            // Create new GIF
-            const imagesPath = path.join(seriesPath, 'Images').replace(/\\/g, '/');
-            try {
-                await this.dicomService.createAnimatedGif(imagesPath, gifPath);
-            } catch (error: any) {
-                console.error(`Failed to create GIF for series ${seriesPath}: ${error.message}`);
-            }
-
-        } catch (error: any) {
-            console.error(`Error creating GIF: ${error.message}`);
-        }
-    }
 }
\ No newline at end of file
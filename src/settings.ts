@@ -1,6 +1,9 @@
 import { App, PluginSettingTab, Setting, Notice, TFolder } from 'obsidian';
 import type DICOMHandlerPlugin from './main';
 import { FolderSuggest } from './ui/folder-suggest';
+import { AnimationFormat, ImageFormat, ImageFormats } from './utils/image-format';
+import { ProjectionMode, VolumeProjection } from './utils/volume-projection';
+import { ColorMap, ColorMaps } from './utils/color-maps';
 import * as path from 'path';
 
 // Add Electron types
@@ -12,38 +15,127 @@ interface OpenDialogReturnValue {
 // @ts-ignore
 const electron = require('electron');
 
+// User-defined window applied to grayscale images of one modality
+export interface WindowPreset {
+    name: string;       // Also the name of the preset's image folder
+    modality: string;   // DICOM modality code, e.g. CT
+    center: number;
+    width: number;
+}
+
 export interface DICOMHandlerSettings {
-    imageFormat: 'png';  // Always PNG output
+    imageFormat: ImageFormat;    // Output format of converted images
+    imageQuality: number;        // JPEG/WebP quality, 1-100
+    embedImageMetadata: boolean; // Write DICOM provenance into PNG text chunks
+    embedPixelSpacing: boolean;  // Write the pixel spacing as the PNG's physical pixel size
     autoConvert: boolean;
     sourceFolderPath: string;    // External folder with DICOM files
     destinationFolderPath: string; // Vault folder for converted images
     galleryImageWidth: number;
+    maxImageDimension: number;     // Longest side of written images in pixels; 0 keeps the full size
+    createThumbnails: boolean;     // Write a small copy of every image for the gallery
+    thumbnailSize: number;         // Longest side of thumbnails in pixels
+    cropUltrasoundRegions: boolean; // Crop ultrasound images to their scan regions
     opjPath: string;             // OpenJPEG path for JPEG 2000
-    magickPath: string;          // ImageMagick path for all image operations
     archiveDicomFiles: boolean;    // Whether to archive original DICOM files
     addDcmExtension: boolean;      // Add .dcm extension to archived DICOM files
     subdirectoryFormat: string;    // Format string for date-based subdirectories
+    defaultTransferSyntax: string; // Assumed for raw files without a DICOM file header
+    // Automatic windowing for images without a stored window
+    autoWindowMode: 'minmax' | 'percentile';  // Per-image min/max or series-wide percentiles
+    autoWindowLowerPercentile: number;
+    autoWindowUpperPercentile: number;
+    // Window preset settings
+    renderWindowPresets: boolean;  // Render extra image sets for DICOM and user window presets
+    windowPresets: WindowPreset[];
+    // PET and NM display
+    petColorMap: ColorMap;         // Color map of PET and NM images
+    suvWindowMax: number;          // Upper end of the PET window in SUVbw; 0 keeps the usual windowing
+    // Overlay planes (groups 60xx) drawn over the image
+    renderOverlays: boolean;
+    overlayColor: string;          // '#rrggbb'
+    // Text and scale bar burned into the written images
+    burnInAnnotations: boolean;    // Patient initials, date, series/instance, window and location in the corners
+    burnInScaleBar: boolean;       // Millimeter scale bar from the pixel spacing
     // Animation settings
-    createAnimatedGif: boolean;    // Enable/disable GIF creation
-    minImagesForGif: number;       // Minimum number of images required for GIF
-    gifFrameDelay: number;         // Delay between frames in milliseconds
+    createAnimatedGif: boolean;    // Enable/disable series animations
+    animationFormat: AnimationFormat;
+    minImagesForGif: number;       // Minimum number of images required for an animation
+    gifFrameDelay: number;         // Delay between frames in milliseconds, unless the DICOM cine timing says otherwise
+    animationFrameOrder: 'forward' | 'reverse' | 'bounce';
+    animationLoopCount: number;    // Times the animation plays, 0 = forever
+    gifDithering: boolean;         // Dither color GIFs reduced to 256 colors
+    // Series mosaic settings
+    createMosaic: boolean;         // Render a contact sheet of each series
+    mosaicColumns: number;
+    mosaicRows: number;            // Maximum rows; images beyond the grid are left out
+    mosaicInterval: number;        // Use every Nth image, 0 = spread evenly over the grid
+    mosaicTileSize: number;        // Tile width in pixels
+    mosaicLabels: boolean;         // Label tiles with slice number and position
+    createReformats: boolean;      // Coronal and sagittal image sets from regular axial stacks
+    // Intensity projection settings, also limited to regular axial stacks
+    createProjections: boolean;
+    projectionModes: ProjectionMode[];  // Whole-volume projections, each along all three axes
+    slabThickness: number;         // Thick-slab MIP thickness in millimeters, 0 = none
+    rotatingMIPFrames: number;     // Views in the rotating MIP animation, 0 = none
 }
 
 export const DEFAULT_SETTINGS: DICOMHandlerSettings = {
     imageFormat: 'png',
+    imageQuality: 85,
+    embedImageMetadata: true,
+    embedPixelSpacing: false,
     autoConvert: false,
     sourceFolderPath: '',
     destinationFolderPath: '',
     galleryImageWidth: 150,
+    maxImageDimension: 0,
+    createThumbnails: false,
+    thumbnailSize: 300,
+    cropUltrasoundRegions: false,
     opjPath: '',
-    magickPath: '',              // ImageMagick path for all operations
     archiveDicomFiles: false,
     addDcmExtension: true,      // Default to true to add .dcm extension
     subdirectoryFormat: '',      // Empty string means no date-based subdirectories
+    defaultTransferSyntax: '1.2.840.10008.1.2',  // Implicit VR Little Endian
+    // Automatic windowing defaults
+    autoWindowMode: 'minmax',
+    autoWindowLowerPercentile: 1,
+    autoWindowUpperPercentile: 99,
+    // Window preset defaults
+    renderWindowPresets: false,
+    windowPresets: [
+        { name: 'Lung', modality: 'CT', center: -600, width: 1500 },
+        { name: 'Bone', modality: 'CT', center: 400, width: 1800 },
+        { name: 'Brain', modality: 'CT', center: 40, width: 80 },
+        { name: 'Soft Tissue', modality: 'CT', center: 50, width: 400 }
+    ],
+    petColorMap: 'gray',
+    suvWindowMax: 0,
+    renderOverlays: false,
+    overlayColor: '#ffff00',
+    burnInAnnotations: false,
+    burnInScaleBar: false,
     // Animation settings defaults
     createAnimatedGif: false,
+    animationFormat: 'gif',
     minImagesForGif: 2,          // Lowered from 5 to 2
-    gifFrameDelay: 250
+    gifFrameDelay: 250,
+    animationFrameOrder: 'forward',
+    animationLoopCount: 0,
+    gifDithering: false,
+    // Series mosaic defaults
+    createMosaic: false,
+    mosaicColumns: 6,
+    mosaicRows: 6,
+    mosaicInterval: 0,
+    mosaicTileSize: 192,
+    mosaicLabels: true,
+    createReformats: false,
+    createProjections: false,
+    projectionModes: ['mip'],
+    slabThickness: 10,
+    rotatingMIPFrames: 36
 };
 
 export class DICOMHandlerSettingsTab extends PluginSettingTab {
@@ -93,38 +185,6 @@ export class DICOMHandlerSettingsTab extends PluginSettingTab {
                         });
                     }));
 
-        new Setting(containerEl)
-            .setName('ImageMagick Path')
-            .setDesc('Path to magick executable (part of ImageMagick), required for JPEG Lossless DICOM images and GIF creation')
-            .addText(text => text
-                .setPlaceholder('C:\\Program Files\\ImageMagick\\magick.exe')
-                .setValue(this.plugin.settings.magickPath)
-                .onChange(async (value) => {
-                    const normalizedPath = value.replace(/\//g, '\\');
-                    this.plugin.settings.magickPath = normalizedPath;
-                    await this.plugin.saveSettings();
-                }))
-            .addButton(button =>
-                button
-                    .setButtonText('Browse...')
-                    .onClick(() => {
-                        // @ts-ignore
-                        const { dialog } = require('electron').remote;
-                        dialog.showOpenDialog({
-                            properties: ['openFile'],
-                            filters: [
-                                { name: 'Executable', extensions: ['exe'] }
-                            ]
-                        }).then(async (result: OpenDialogReturnValue) => {
-                            if (!result.canceled && result.filePaths.length > 0) {
-                                const exePath = result.filePaths[0];
-                                this.plugin.settings.magickPath = exePath;
-                                await this.plugin.saveSettings();
-                                this.display();
-                            }
-                        });
-                    }));
-
         // Folder Settings
         containerEl.createEl('h2', { text: 'Folder Settings' });
 
@@ -221,8 +281,76 @@ export class DICOMHandlerSettingsTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Raw File Transfer Syntax')
+            .setDesc('Encoding assumed for files without a DICOM header (no "DICM" marker), as found on older CD exports, when it cannot be detected')
+            .addDropdown(dropdown => dropdown
+                .addOption('1.2.840.10008.1.2', 'Implicit VR Little Endian')
+                .addOption('1.2.840.10008.1.2.1', 'Explicit VR Little Endian')
+                .addOption('1.2.840.10008.1.2.2', 'Explicit VR Big Endian')
+                .setValue(this.plugin.settings.defaultTransferSyntax)
+                .onChange(async (value) => {
+                    this.plugin.settings.defaultTransferSyntax = value;
+                    await this.plugin.saveSettings();
+                }));
+
         containerEl.createEl('h3', { text: 'Display Settings' });
 
+        new Setting(containerEl)
+            .setName('Image Format')
+            .setDesc('Format of converted images. 16-bit PNG keeps the full grayscale range without windowing; TIFF files are not previewed by Obsidian.')
+            .addDropdown(dropdown => dropdown
+                .addOption('png', 'PNG')
+                .addOption('png16', 'PNG (16-bit grayscale)')
+                .addOption('jpeg', 'JPEG')
+                .addOption('webp', 'WebP')
+                .addOption('tiff', 'TIFF')
+                .setValue(this.plugin.settings.imageFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.imageFormat = value as ImageFormat;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide dependent settings
+                }));
+
+        // Create a container for quality-dependent settings
+        const qualitySettingsContainer = containerEl.createDiv();
+        qualitySettingsContainer.style.display = ImageFormats.isLossy(this.plugin.settings.imageFormat) ? 'block' : 'none';
+        qualitySettingsContainer.style.paddingLeft = '24px';
+
+        new Setting(qualitySettingsContainer)
+            .setName('Image Quality')
+            .setDesc('JPEG and WebP quality from 1 to 100; lower values give smaller files (default: 85)')
+            .addText(text => text
+                .setPlaceholder('85')
+                .setValue(String(this.plugin.settings.imageQuality))
+                .onChange(async (value) => {
+                    const quality = parseInt(value);
+                    if (!isNaN(quality) && quality >= 1 && quality <= 100) {
+                        this.plugin.settings.imageQuality = quality;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Embed Source Metadata')
+            .setDesc('Write the study, series and instance UIDs, instance number, modality, study date and window into PNG images, so copies can be traced back to their series note')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.embedImageMetadata)
+                .onChange(async (value) => {
+                    this.plugin.settings.embedImageMetadata = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Embed Pixel Spacing')
+            .setDesc('Store the DICOM pixel spacing as the physical pixel size of PNG images')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.embedPixelSpacing)
+                .onChange(async (value) => {
+                    this.plugin.settings.embedPixelSpacing = value;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName('Gallery Image Width')
             .setDesc('Set the width in pixels for images in the gallery (default: 150)')
@@ -237,8 +365,200 @@ export class DICOMHandlerSettingsTab extends PluginSettingTab {
                 }));
 
         new Setting(containerEl)
-            .setName('Create Animated GIFs')
-            .setDesc('Enable creation of animated GIFs from DICOM series')
+            .setName('Maximum Image Size')
+            .setDesc('Shrink images whose longer side exceeds this many pixels, such as full-resolution mammograms, keeping their aspect ratio. 0 keeps the full size (default: 0)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.maxImageDimension))
+                .onChange(async (value) => {
+                    const size = parseInt(value);
+                    if (!isNaN(size) && size >= 0) {
+                        this.plugin.settings.maxImageDimension = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Create Thumbnails')
+            .setDesc('Write a small copy of every image into a Thumbnails folder and show those in the gallery, so notes of large series load quickly')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.createThumbnails)
+                .onChange(async (value) => {
+                    this.plugin.settings.createThumbnails = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide dependent settings
+                }));
+
+        // Create a container for thumbnail-dependent settings
+        const thumbnailSettingsContainer = containerEl.createDiv();
+        thumbnailSettingsContainer.style.display = this.plugin.settings.createThumbnails ? 'block' : 'none';
+        thumbnailSettingsContainer.style.paddingLeft = '24px';
+
+        new Setting(thumbnailSettingsContainer)
+            .setName('Thumbnail Size')
+            .setDesc('Longer side of thumbnails in pixels; twice the gallery image width keeps them sharp on high-resolution screens (default: 300)')
+            .addText(text => text
+                .setPlaceholder('300')
+                .setValue(String(this.plugin.settings.thumbnailSize))
+                .onChange(async (value) => {
+                    const size = parseInt(value);
+                    if (!isNaN(size) && size > 0) {
+                        this.plugin.settings.thumbnailSize = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Crop Ultrasound Images')
+            .setDesc('Crop ultrasound images to the scan regions listed in the file, leaving out the scanner\'s on-screen controls and text. The calibration of each region is recorded in the series note either way.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.cropUltrasoundRegions)
+                .onChange(async (value) => {
+                    this.plugin.settings.cropUltrasoundRegions = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Automatic Windowing')
+            .setDesc('Brightness and contrast for images without a stored window. Percentile windowing ignores outlier pixels and uses one window for every image of a series.')
+            .addDropdown(dropdown => dropdown
+                .addOption('minmax', 'Min/max per image')
+                .addOption('percentile', 'Percentiles across series')
+                .setValue(this.plugin.settings.autoWindowMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoWindowMode = value as 'minmax' | 'percentile';
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide dependent settings
+                }));
+
+        // Create a container for percentile-dependent settings
+        const percentileSettingsContainer = containerEl.createDiv();
+        percentileSettingsContainer.style.display = this.plugin.settings.autoWindowMode === 'percentile' ? 'block' : 'none';
+        percentileSettingsContainer.style.paddingLeft = '24px';
+
+        new Setting(percentileSettingsContainer)
+            .setName('Lower Percentile')
+            .setDesc('Values below this percentile display as black (default: 1)')
+            .addText(text => text
+                .setPlaceholder('1')
+                .setValue(String(this.plugin.settings.autoWindowLowerPercentile))
+                .onChange(async (value) => {
+                    const percentile = parseFloat(value);
+                    if (!isNaN(percentile) && percentile >= 0 && percentile < 100) {
+                        this.plugin.settings.autoWindowLowerPercentile = percentile;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(percentileSettingsContainer)
+            .setName('Upper Percentile')
+            .setDesc('Values above this percentile display as white (default: 99)')
+            .addText(text => text
+                .setPlaceholder('99')
+                .setValue(String(this.plugin.settings.autoWindowUpperPercentile))
+                .onChange(async (value) => {
+                    const percentile = parseFloat(value);
+                    if (!isNaN(percentile) && percentile > 0 && percentile <= 100) {
+                        this.plugin.settings.autoWindowUpperPercentile = percentile;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Render Window Presets')
+            .setDesc('Create an extra image set and gallery per window preset (e.g. Images/Lung), from the windows stored in the DICOM files and the presets below')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.renderWindowPresets)
+                .onChange(async (value) => {
+                    this.plugin.settings.renderWindowPresets = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide dependent settings
+                }));
+
+        // Create a container for preset-dependent settings
+        const presetSettingsContainer = containerEl.createDiv();
+        presetSettingsContainer.style.display = this.plugin.settings.renderWindowPresets ? 'block' : 'none';
+        presetSettingsContainer.style.paddingLeft = '24px';
+        this.addWindowPresetSettings(presetSettingsContainer);
+
+        new Setting(containerEl)
+            .setName('PET/NM Color Map')
+            .setDesc('Color map for PET and nuclear medicine images')
+            .addDropdown(dropdown => {
+                for (const map of ColorMaps.MAPS) {
+                    dropdown.addOption(map, ColorMaps.getName(map));
+                }
+                dropdown
+                    .setValue(this.plugin.settings.petColorMap)
+                    .onChange(async (value) => {
+                        this.plugin.settings.petColorMap = value as ColorMap;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('PET SUV Window')
+            .setDesc('Show PET images from SUV 0 up to this body-weight SUV, when the files hold the patient weight, injected dose and injection time. 0 keeps the stored or automatic window (default: 0)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.suvWindowMax))
+                .onChange(async (value) => {
+                    const suv = parseFloat(value);
+                    if (!isNaN(suv) && suv >= 0) {
+                        this.plugin.settings.suvWindowMax = suv;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Draw Overlays')
+            .setDesc('Draw DICOM overlay planes, such as CAD marks, cross-reference lines and annotations, over the images in color. 16-bit PNG images stay unchanged; their animations show the overlays.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.renderOverlays)
+                .onChange(async (value) => {
+                    this.plugin.settings.renderOverlays = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide dependent settings
+                }));
+
+        // Create a container for overlay-dependent settings
+        const overlaySettingsContainer = containerEl.createDiv();
+        overlaySettingsContainer.style.display = this.plugin.settings.renderOverlays ? 'block' : 'none';
+        overlaySettingsContainer.style.paddingLeft = '24px';
+
+        new Setting(overlaySettingsContainer)
+            .setName('Overlay Color')
+            .setDesc('Color of the overlay pixels')
+            .addColorPicker(picker => picker
+                .setValue(this.plugin.settings.overlayColor)
+                .onChange(async (value) => {
+                    this.plugin.settings.overlayColor = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Burn In Corner Text')
+            .setDesc('Write patient initials, study date, series and image number, window and slice location into the corners of the images. 16-bit PNG images, animations and the mosaic stay unchanged.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.burnInAnnotations)
+                .onChange(async (value) => {
+                    this.plugin.settings.burnInAnnotations = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Burn In Scale Bar')
+            .setDesc('Draw a millimeter scale bar at the bottom of images with a known pixel spacing')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.burnInScaleBar)
+                .onChange(async (value) => {
+                    this.plugin.settings.burnInScaleBar = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Create Animations')
+            .setDesc('Create an animated GIF or PNG from the images of each DICOM series')
             .addToggle(toggle => toggle
                 .setValue(this.plugin.settings.createAnimatedGif)
                 .onChange(async (value) => {
@@ -253,8 +573,21 @@ export class DICOMHandlerSettingsTab extends PluginSettingTab {
         animationSettingsContainer.style.paddingLeft = '24px';
 
         new Setting(animationSettingsContainer)
-            .setName('Minimum Images for GIF')
-            .setDesc('Minimum number of images required to create an animated GIF')
+            .setName('Animation Format')
+            .setDesc('GIF is limited to 256 colors; animated PNG keeps every grayscale level but produces larger files')
+            .addDropdown(dropdown => dropdown
+                .addOption('gif', 'GIF')
+                .addOption('apng', 'Animated PNG')
+                .setValue(this.plugin.settings.animationFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.animationFormat = value as AnimationFormat;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide dependent settings
+                }));
+
+        new Setting(animationSettingsContainer)
+            .setName('Minimum Images for Animation')
+            .setDesc('Minimum number of images required to create an animation')
             .addText(text => text
                 .setPlaceholder('5')
                 .setValue(String(this.plugin.settings.minImagesForGif))
@@ -268,7 +601,7 @@ export class DICOMHandlerSettingsTab extends PluginSettingTab {
 
         new Setting(animationSettingsContainer)
             .setName('Frame Delay')
-            .setDesc('Delay between frames in milliseconds (1000 = 1 second)')
+            .setDesc('Delay between frames in milliseconds (1000 = 1 second), for images without their own cine timing such as CT and MR series')
             .addText(text => text
                 .setPlaceholder('250')
                 .setValue(String(this.plugin.settings.gifFrameDelay))
@@ -280,6 +613,192 @@ export class DICOMHandlerSettingsTab extends PluginSettingTab {
                     }
                 }));
 
+        new Setting(animationSettingsContainer)
+            .setName('Frame Order')
+            .setDesc('Play the images in series order, in reverse, or forward and back again')
+            .addDropdown(dropdown => dropdown
+                .addOption('forward', 'Forward')
+                .addOption('reverse', 'Reverse')
+                .addOption('bounce', 'Forward and back')
+                .setValue(this.plugin.settings.animationFrameOrder)
+                .onChange(async (value) => {
+                    this.plugin.settings.animationFrameOrder = value as 'forward' | 'reverse' | 'bounce';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(animationSettingsContainer)
+            .setName('Loop Count')
+            .setDesc('Number of times the animation plays; 0 loops forever (default: 0)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.animationLoopCount))
+                .onChange(async (value) => {
+                    const count = parseInt(value);
+                    if (!isNaN(count) && count >= 0 && count <= 65535) {
+                        this.plugin.settings.animationLoopCount = count;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        if (this.plugin.settings.animationFormat === 'gif') {
+            new Setting(animationSettingsContainer)
+                .setName('Dithering')
+                .setDesc('Dither color GIFs to hide banding from the 256-color palette. Grayscale GIFs are always exact.')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.gifDithering)
+                    .onChange(async (value) => {
+                        this.plugin.settings.gifDithering = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Create Series Mosaic')
+            .setDesc('Render a contact sheet of each series and show it at the top of the series note')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.createMosaic)
+                .onChange(async (value) => {
+                    this.plugin.settings.createMosaic = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide dependent settings
+                }));
+
+        // Create a container for mosaic-dependent settings
+        const mosaicSettingsContainer = containerEl.createDiv();
+        mosaicSettingsContainer.style.display = this.plugin.settings.createMosaic ? 'block' : 'none';
+        mosaicSettingsContainer.style.paddingLeft = '24px';
+
+        new Setting(mosaicSettingsContainer)
+            .setName('Grid Size')
+            .setDesc('Columns and maximum rows of the mosaic')
+            .addText(text => text
+                .setPlaceholder('6')
+                .setValue(String(this.plugin.settings.mosaicColumns))
+                .onChange(async (value) => {
+                    const columns = parseInt(value);
+                    if (!isNaN(columns) && columns > 0) {
+                        this.plugin.settings.mosaicColumns = columns;
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .addText(text => text
+                .setPlaceholder('6')
+                .setValue(String(this.plugin.settings.mosaicRows))
+                .onChange(async (value) => {
+                    const rows = parseInt(value);
+                    if (!isNaN(rows) && rows > 0) {
+                        this.plugin.settings.mosaicRows = rows;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(mosaicSettingsContainer)
+            .setName('Image Interval')
+            .setDesc('Use every Nth image of the series; 0 picks images evenly from the whole series to fill the grid')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.mosaicInterval))
+                .onChange(async (value) => {
+                    const interval = parseInt(value);
+                    if (!isNaN(interval) && interval >= 0) {
+                        this.plugin.settings.mosaicInterval = interval;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(mosaicSettingsContainer)
+            .setName('Tile Width')
+            .setDesc('Width of each image in the mosaic in pixels (default: 192)')
+            .addText(text => text
+                .setPlaceholder('192')
+                .setValue(String(this.plugin.settings.mosaicTileSize))
+                .onChange(async (value) => {
+                    const size = parseInt(value);
+                    if (!isNaN(size) && size >= 16) {
+                        this.plugin.settings.mosaicTileSize = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(mosaicSettingsContainer)
+            .setName('Labels')
+            .setDesc('Label each image with its slice number and slice position')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.mosaicLabels)
+                .onChange(async (value) => {
+                    this.plugin.settings.mosaicLabels = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Create Coronal and Sagittal Reformats')
+            .setDesc('For evenly spaced axial series such as CT and MR, add coronal and sagittal image sets with their own galleries and animations')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.createReformats)
+                .onChange(async (value) => {
+                    this.plugin.settings.createReformats = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Create Intensity Projections')
+            .setDesc('For evenly spaced axial series, add maximum, minimum and average intensity projections, thick-slab MIPs and a rotating MIP')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.createProjections)
+                .onChange(async (value) => {
+                    this.plugin.settings.createProjections = value;
+                    await this.plugin.saveSettings();
+                    this.display(); // Refresh to show/hide dependent settings
+                }));
+
+        // Create a container for projection-dependent settings
+        const projectionSettingsContainer = containerEl.createDiv();
+        projectionSettingsContainer.style.display = this.plugin.settings.createProjections ? 'block' : 'none';
+        projectionSettingsContainer.style.paddingLeft = '24px';
+
+        // The list is replaced rather than mutated so the defaults array is never modified
+        for (const mode of VolumeProjection.MODES) {
+            const name = VolumeProjection.getModeName(mode);
+            new Setting(projectionSettingsContainer)
+                .setName(`${name} Projections`)
+                .setDesc(`Project the whole series front to back, side to side and top to bottom (${name})`)
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.projectionModes.includes(mode))
+                    .onChange(async (value) => {
+                        const others = this.plugin.settings.projectionModes.filter(other => other !== mode);
+                        this.plugin.settings.projectionModes = value ? [...others, mode] : others;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(projectionSettingsContainer)
+            .setName('Slab Thickness')
+            .setDesc('Thickness of the thick-slab MIPs in millimeters; 0 skips them (default: 10)')
+            .addText(text => text
+                .setPlaceholder('10')
+                .setValue(String(this.plugin.settings.slabThickness))
+                .onChange(async (value) => {
+                    const thickness = parseFloat(value);
+                    if (!isNaN(thickness) && thickness >= 0) {
+                        this.plugin.settings.slabThickness = thickness;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(projectionSettingsContainer)
+            .setName('Rotating MIP Views')
+            .setDesc('Number of views in the rotating MIP animation; 0 skips it (default: 36)')
+            .addText(text => text
+                .setPlaceholder('36')
+                .setValue(String(this.plugin.settings.rotatingMIPFrames))
+                .onChange(async (value) => {
+                    const frames = parseInt(value);
+                    if (!isNaN(frames) && frames >= 0 && frames <= 360) {
+                        this.plugin.settings.rotatingMIPFrames = frames;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
         // Add horizontal rule before Support section
         containerEl.createEl('hr', { cls: 'settings-separator' });
 
@@ -290,6 +809,71 @@ export class DICOMHandlerSettingsTab extends PluginSettingTab {
 
     }
 
+    private addWindowPresetSettings(containerEl: HTMLElement) {
+        // Presets are replaced rather than mutated so the defaults array is never modified
+        const updatePreset = async (index: number, changes: Partial<WindowPreset>) => {
+            this.plugin.settings.windowPresets = this.plugin.settings.windowPresets
+                .map((preset, i) => i === index ? { ...preset, ...changes } : preset);
+            await this.plugin.saveSettings();
+        };
+
+        this.plugin.settings.windowPresets.forEach((preset, index) => {
+            new Setting(containerEl)
+                .setName(preset.name || 'Unnamed preset')
+                .setDesc('Name, modality, window center and window width')
+                .addText(text => text
+                    .setPlaceholder('Name')
+                    .setValue(preset.name)
+                    .onChange(async (value) => {
+                        await updatePreset(index, { name: value.trim() });
+                    }))
+                .addText(text => text
+                    .setPlaceholder('CT')
+                    .setValue(preset.modality)
+                    .onChange(async (value) => {
+                        await updatePreset(index, { modality: value.trim().toUpperCase() });
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Center')
+                    .setValue(String(preset.center))
+                    .onChange(async (value) => {
+                        const center = parseFloat(value);
+                        if (!isNaN(center)) {
+                            await updatePreset(index, { center });
+                        }
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Width')
+                    .setValue(String(preset.width))
+                    .onChange(async (value) => {
+                        const width = parseFloat(value);
+                        if (!isNaN(width) && width > 0) {
+                            await updatePreset(index, { width });
+                        }
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove preset')
+                    .onClick(async () => {
+                        this.plugin.settings.windowPresets = this.plugin.settings.windowPresets.filter((_, i) => i !== index);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add Preset')
+                .onClick(async () => {
+                    this.plugin.settings.windowPresets = [
+                        ...this.plugin.settings.windowPresets,
+                        { name: 'New Preset', modality: 'CT', center: 40, width: 400 }
+                    ];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
     private addWebsiteSection(containerEl: HTMLElement) {
         const websiteDiv = containerEl.createEl('div', { cls: 'website-section' });
 
@@ -0,0 +1,191 @@
+import { DisplayFrame } from '../models/types';
+
+// 5x7 glyphs for printable ASCII; each row is a 5-bit mask with the leftmost pixel in bit 4
+const GLYPHS: Record<string, number[]> = {
+    ' ': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
+    '!': [0x04, 0x04, 0x04, 0x04, 0x04, 0x00, 0x04],
+    '"': [0x0a, 0x0a, 0x00, 0x00, 0x00, 0x00, 0x00],
+    '#': [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a],
+    '$': [0x04, 0x0f, 0x14, 0x0e, 0x05, 0x1e, 0x04],
+    '%': [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03],
+    '&': [0x0c, 0x12, 0x14, 0x08, 0x15, 0x12, 0x0d],
+    "'": [0x04, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00],
+    '(': [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+    ')': [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+    '*': [0x00, 0x04, 0x15, 0x0e, 0x15, 0x04, 0x00],
+    '+': [0x00, 0x04, 0x04, 0x1f, 0x04, 0x04, 0x00],
+    ',': [0x00, 0x00, 0x00, 0x00, 0x0c, 0x04, 0x08],
+    '-': [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+    '.': [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+    '/': [0x00, 0x01, 0x02, 0x04, 0x08, 0x10, 0x00],
+    '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+    '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+    '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+    '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+    '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+    '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+    '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+    '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+    '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+    '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+    ':': [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+    ';': [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x04, 0x08],
+    '<': [0x02, 0x04, 0x08, 0x10, 0x08, 0x04, 0x02],
+    '=': [0x00, 0x00, 0x1f, 0x00, 0x1f, 0x00, 0x00],
+    '>': [0x08, 0x04, 0x02, 0x01, 0x02, 0x04, 0x08],
+    '?': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x00, 0x04],
+    '@': [0x0e, 0x11, 0x01, 0x0d, 0x15, 0x15, 0x0e],
+    'A': [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+    'B': [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+    'C': [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+    'D': [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+    'E': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+    'F': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+    'G': [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+    'H': [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+    'I': [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+    'J': [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+    'K': [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+    'L': [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+    'M': [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+    'N': [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+    'O': [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+    'P': [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+    'Q': [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+    'R': [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+    'S': [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+    'T': [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+    'U': [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+    'V': [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+    'W': [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+    'X': [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+    'Y': [0x11, 0x11, 0x0a, 0x04, 0x04, 0x04, 0x04],
+    'Z': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+    '[': [0x0e, 0x08, 0x08, 0x08, 0x08, 0x08, 0x0e],
+    '\\': [0x00, 0x10, 0x08, 0x04, 0x02, 0x01, 0x00],
+    ']': [0x0e, 0x02, 0x02, 0x02, 0x02, 0x02, 0x0e],
+    '^': [0x04, 0x0a, 0x11, 0x00, 0x00, 0x00, 0x00],
+    '_': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x1f],
+    '`': [0x08, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00],
+    'a': [0x00, 0x00, 0x0e, 0x01, 0x0f, 0x11, 0x0f],
+    'b': [0x10, 0x10, 0x16, 0x19, 0x11, 0x11, 0x1e],
+    'c': [0x00, 0x00, 0x0e, 0x10, 0x10, 0x11, 0x0e],
+    'd': [0x01, 0x01, 0x0d, 0x13, 0x11, 0x11, 0x0f],
+    'e': [0x00, 0x00, 0x0e, 0x11, 0x1f, 0x10, 0x0e],
+    'f': [0x06, 0x09, 0x08, 0x1c, 0x08, 0x08, 0x08],
+    'g': [0x00, 0x0f, 0x11, 0x11, 0x0f, 0x01, 0x0e],
+    'h': [0x10, 0x10, 0x16, 0x19, 0x11, 0x11, 0x11],
+    'i': [0x04, 0x00, 0x0c, 0x04, 0x04, 0x04, 0x0e],
+    'j': [0x02, 0x00, 0x06, 0x02, 0x02, 0x12, 0x0c],
+    'k': [0x10, 0x10, 0x12, 0x14, 0x18, 0x14, 0x12],
+    'l': [0x0c, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+    'm': [0x00, 0x00, 0x1a, 0x15, 0x15, 0x11, 0x11],
+    'n': [0x00, 0x00, 0x16, 0x19, 0x11, 0x11, 0x11],
+    'o': [0x00, 0x00, 0x0e, 0x11, 0x11, 0x11, 0x0e],
+    'p': [0x00, 0x00, 0x1e, 0x11, 0x1e, 0x10, 0x10],
+    'q': [0x00, 0x00, 0x0d, 0x13, 0x0f, 0x01, 0x01],
+    'r': [0x00, 0x00, 0x16, 0x19, 0x10, 0x10, 0x10],
+    's': [0x00, 0x00, 0x0e, 0x10, 0x0e, 0x01, 0x1e],
+    't': [0x08, 0x08, 0x1c, 0x08, 0x08, 0x09, 0x06],
+    'u': [0x00, 0x00, 0x11, 0x11, 0x11, 0x13, 0x0d],
+    'v': [0x00, 0x00, 0x11, 0x11, 0x11, 0x0a, 0x04],
+    'w': [0x00, 0x00, 0x11, 0x11, 0x15, 0x15, 0x0a],
+    'x': [0x00, 0x00, 0x11, 0x0a, 0x04, 0x0a, 0x11],
+    'y': [0x00, 0x00, 0x11, 0x11, 0x0f, 0x01, 0x0e],
+    'z': [0x00, 0x00, 0x1f, 0x02, 0x04, 0x08, 0x1f],
+    '{': [0x02, 0x04, 0x04, 0x08, 0x04, 0x04, 0x02],
+    '|': [0x04, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+    '}': [0x08, 0x04, 0x04, 0x02, 0x04, 0x04, 0x08],
+    '~': [0x00, 0x00, 0x08, 0x15, 0x02, 0x00, 0x00],
+};
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+const GLYPH_SPACING = 1;
+
+// Draws text into display pixels without a canvas, so labels come out the same in every environment
+export class BitmapFont {
+    // Size of the text in pixels, including the outline
+    static measure(text: string, scale = 1): { width: number; height: number } {
+        const length = BitmapFont.normalize(text).length;
+        const width = length > 0 ? length * (GLYPH_WIDTH + GLYPH_SPACING) - GLYPH_SPACING : 0;
+        return { width: (width + 2) * scale, height: (GLYPH_HEIGHT + 2) * scale };
+    }
+
+    // Draws text with its top-left corner at (x, y). A one-pixel black outline keeps it readable on
+    // any background; pixels outside the frame are clipped.
+    static drawText(frame: DisplayFrame, text: string, x: number, y: number, scale = 1, color: [number, number, number] = [255, 255, 255]): void {
+        const characters = BitmapFont.normalize(text);
+        const maskWidth = characters.length * (GLYPH_WIDTH + GLYPH_SPACING) + 1;
+        const maskHeight = GLYPH_HEIGHT + 2;
+
+        // Glyph pixels in a mask with a one-pixel border for the outline
+        const mask = new Uint8Array(maskWidth * maskHeight);
+        characters.forEach((character, index) => {
+            const rows = GLYPHS[character] || GLYPHS['?'];
+            const left = 1 + index * (GLYPH_WIDTH + GLYPH_SPACING);
+            for (let row = 0; row < GLYPH_HEIGHT; row++) {
+                for (let column = 0; column < GLYPH_WIDTH; column++) {
+                    if (rows[row] & (0x10 >> column)) {
+                        mask[(row + 1) * maskWidth + left + column] = 2;
+                    }
+                }
+            }
+        });
+        for (let my = 0; my < maskHeight; my++) {
+            for (let mx = 0; mx < maskWidth; mx++) {
+                if (mask[my * maskWidth + mx] === 0 && BitmapFont.touchesGlyph(mask, maskWidth, maskHeight, mx, my)) {
+                    mask[my * maskWidth + mx] = 1;
+                }
+            }
+        }
+
+        const outline = [0, 0, 0];
+        for (let my = 0; my < maskHeight; my++) {
+            for (let mx = 0; mx < maskWidth; mx++) {
+                const value = mask[my * maskWidth + mx];
+                if (value === 0) {
+                    continue;
+                }
+                const pixelColor = value === 2 ? color : outline;
+                for (let sy = 0; sy < scale; sy++) {
+                    for (let sx = 0; sx < scale; sx++) {
+                        BitmapFont.setPixel(frame, x + mx * scale + sx, y + my * scale + sy, pixelColor);
+                    }
+                }
+            }
+        }
+    }
+
+    // Accents are dropped and anything else outside printable ASCII shows as '?'
+    private static normalize(text: string): string[] {
+        return Array.from(text.normalize('NFD').replace(/[\u0300-\u036f]/g, ''))
+            .map(character => GLYPHS[character] ? character : '?');
+    }
+
+    private static touchesGlyph(mask: Uint8Array, width: number, height: number, x: number, y: number): boolean {
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx >= 0 && ny >= 0 && nx < width && ny < height && mask[ny * width + nx] === 2) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    // Grayscale frames take the color's average
+    private static setPixel(frame: DisplayFrame, x: number, y: number, color: number[]): void {
+        if (x < 0 || y < 0 || x >= frame.columns || y >= frame.rows) {
+            return;
+        }
+        const index = y * frame.columns + x;
+        if (frame.channels === 1) {
+            frame.samples[index] = Math.round((color[0] + color[1] + color[2]) / 3);
+        } else {
+            frame.samples.set(color, index * 3);
+        }
+    }
+}
@@ -0,0 +1,49 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+
+// Playback timing of multi-frame images from the Cine module (PS3.3 C.7.6.5)
+export class CineTiming {
+    // Display time of each frame in milliseconds, or undefined when the image carries no usable timing.
+    // Acquisition timing (Frame Time Vector, then Frame Time) is preferred over the frame rates.
+    static getFrameDelays(dataSet: dicomParser.DataSet, frameCount: number): number[] | undefined {
+        if (frameCount < 2) {
+            return undefined;
+        }
+
+        const vector = CineTiming.getFrameTimeVector(dataSet, frameCount);
+        if (vector) {
+            return vector;
+        }
+
+        const frameTime = dataSet.floatString(DicomTags.FrameTime);
+        if (frameTime && frameTime > 0) {
+            return new Array(frameCount).fill(frameTime);
+        }
+
+        const frameRate = dataSet.intString(DicomTags.RecommendedDisplayFrameRate) || dataSet.intString(DicomTags.CineRate);
+        if (frameRate && frameRate > 0) {
+            return new Array(frameCount).fill(1000 / frameRate);
+        }
+        return undefined;
+    }
+
+    // The vector holds the time elapsed since the previous frame (0 for the first one), so a frame is shown
+    // until the next frame's increment; the last frame gets the average increment
+    private static getFrameTimeVector(dataSet: dicomParser.DataSet, frameCount: number): number[] | undefined {
+        const count = (dataSet.string(DicomTags.FrameTimeVector) || '').split('\\').length;
+        if (!dataSet.elements[DicomTags.FrameTimeVector] || count !== frameCount) {
+            return undefined;
+        }
+
+        const increments: number[] = [];
+        for (let i = 1; i < frameCount; i++) {
+            const increment = dataSet.floatString(DicomTags.FrameTimeVector, i);
+            if (increment === undefined || isNaN(increment) || increment <= 0) {
+                return undefined;
+            }
+            increments.push(increment);
+        }
+        const average = increments.reduce((sum, increment) => sum + increment, 0) / increments.length;
+        return [...increments, average];
+    }
+}
@@ -0,0 +1,94 @@
+// Photometric interpretations of three-sample images (PS3.3 C.7.6.3.1.2)
+const YBR_FULL = new Set(['YBR_FULL', 'YBR_FULL_422']);
+const YBR_PARTIAL = new Set(['YBR_PARTIAL_422', 'YBR_PARTIAL_420']);
+
+export class ColorConverter {
+    static isColor(photometricInterpretation: string | undefined, samplesPerPixel: number): boolean {
+        return samplesPerPixel === 3 && photometricInterpretation !== 'PALETTE COLOR';
+    }
+
+    // Horizontally subsampled data packs two pixels as Y1 Y2 Cb Cr; repeat the chroma for both pixels
+    static is422(photometricInterpretation: string | undefined): boolean {
+        return photometricInterpretation === 'YBR_FULL_422' || photometricInterpretation === 'YBR_PARTIAL_422';
+    }
+
+    static expand422(samples: ArrayLike<number>, columns: number, rows: number): Uint16Array {
+        const output = new Uint16Array(columns * rows * 3);
+        let input = 0;
+        for (let y = 0; y < rows; y++) {
+            for (let x = 0; x < columns; x += 2) {
+                const y1 = samples[input];
+                const y2 = samples[input + 1];
+                const cb = samples[input + 2];
+                const cr = samples[input + 3];
+                input += 4;
+
+                const first = (y * columns + x) * 3;
+                output[first] = y1;
+                output[first + 1] = cb;
+                output[first + 2] = cr;
+                // An odd row length leaves the second luminance sample unused
+                if (x + 1 < columns) {
+                    output[first + 3] = y2;
+                    output[first + 4] = cb;
+                    output[first + 5] = cr;
+                }
+            }
+        }
+        return output;
+    }
+
+    // Planar Configuration 1 stores all red samples, then all green, then all blue
+    static interleavePlanes(samples: ArrayLike<number>, pixelCount: number): Uint16Array {
+        const output = new Uint16Array(pixelCount * 3);
+        for (let i = 0; i < pixelCount; i++) {
+            output[i * 3] = samples[i];
+            output[i * 3 + 1] = samples[pixelCount + i];
+            output[i * 3 + 2] = samples[2 * pixelCount + i];
+        }
+        return output;
+    }
+
+    // Converts interleaved samples to 8-bit RGB, scaling from the stored bit depth
+    static toRGB(samples: ArrayLike<number>, pixelCount: number, photometricInterpretation: string | undefined, bitsStored: number): Uint8Array {
+        const maxValue = Math.pow(2, bitsStored) - 1;
+        const scale = 255 / maxValue;
+        const rgb = new Uint8Array(pixelCount * 3);
+
+        if (photometricInterpretation && (YBR_FULL.has(photometricInterpretation) || YBR_PARTIAL.has(photometricInterpretation))) {
+            const partial = YBR_PARTIAL.has(photometricInterpretation);
+            // Chroma is centered on half the range; partial-range luma starts at 16/256 of it
+            const center = (maxValue + 1) / 2;
+            const lumaOffset = partial ? (maxValue + 1) / 16 : 0;
+            for (let i = 0, j = 0; i < pixelCount; i++, j += 3) {
+                const y = samples[j] - lumaOffset;
+                const cb = samples[j + 1] - center;
+                const cr = samples[j + 2] - center;
+                let r: number, g: number, b: number;
+                if (partial) {
+                    r = 1.1644 * y + 1.5960 * cr;
+                    g = 1.1644 * y - 0.3918 * cb - 0.8130 * cr;
+                    b = 1.1644 * y + 2.0172 * cb;
+                } else {
+                    r = y + 1.402 * cr;
+                    g = y - 0.344136 * cb - 0.714136 * cr;
+                    b = y + 1.772 * cb;
+                }
+                rgb[j] = ColorConverter.clamp(r * scale);
+                rgb[j + 1] = ColorConverter.clamp(g * scale);
+                rgb[j + 2] = ColorConverter.clamp(b * scale);
+            }
+            return rgb;
+        }
+
+        // RGB, and YBR_ICT/YBR_RCT which the JPEG 2000 decoder has already turned into RGB
+        for (let i = 0; i < pixelCount * 3; i++) {
+            rgb[i] = ColorConverter.clamp(samples[i] * scale);
+        }
+        return rgb;
+    }
+
+    private static clamp(value: number): number {
+        return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+    }
+}
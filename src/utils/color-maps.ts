@@ -0,0 +1,60 @@
+import { DisplayFrame } from '../models/types';
+
+export type ColorMap = 'gray' | 'hot-iron' | 'rainbow';
+
+// Pseudo-color lookup tables for windowed grayscale renderings, such as PET uptake
+export class ColorMaps {
+    static readonly MAPS: ColorMap[] = ['gray', 'hot-iron', 'rainbow'];
+
+    private static tables = new Map<ColorMap, Uint8Array>();
+
+    static getName(map: ColorMap): string {
+        return map === 'hot-iron' ? 'Hot iron' : map === 'rainbow' ? 'Rainbow' : 'Grayscale';
+    }
+
+    // RGB copy of a grayscale frame with every gray level replaced by its color; other frames are returned as is
+    static apply(frame: DisplayFrame, map: ColorMap): DisplayFrame {
+        if (map === 'gray' || frame.channels !== 1) {
+            return frame;
+        }
+        const table = ColorMaps.getTable(map);
+        const pixelCount = frame.columns * frame.rows;
+        const samples = new Uint8Array(pixelCount * 3);
+        for (let i = 0; i < pixelCount; i++) {
+            const entry = frame.samples[i] * 3;
+            samples[i * 3] = table[entry];
+            samples[i * 3 + 1] = table[entry + 1];
+            samples[i * 3 + 2] = table[entry + 2];
+        }
+        return { ...frame, channels: 3, samples };
+    }
+
+    // 256 RGB entries, built once per map
+    private static getTable(map: ColorMap): Uint8Array {
+        let table = ColorMaps.tables.get(map);
+        if (!table) {
+            table = new Uint8Array(256 * 3);
+            for (let i = 0; i < 256; i++) {
+                table.set(map === 'hot-iron' ? ColorMaps.hotIron(i) : ColorMaps.rainbow(i), i * 3);
+            }
+            ColorMaps.tables.set(map, table);
+        }
+        return table;
+    }
+
+    // The Hot Iron well-known palette of PS3.6: red rises first, then green, then blue, ending in white
+    private static hotIron(level: number): number[] {
+        return [
+            Math.min(255, level * 2),
+            Math.max(0, Math.min(255, (level - 128) * 2)),
+            Math.max(0, (level - 192) * 4)
+        ];
+    }
+
+    // Dark blue through cyan, green and yellow to dark red
+    private static rainbow(level: number): number[] {
+        const t = level / 255;
+        const channel = (peak: number) => Math.round(255 * Math.max(0, Math.min(1, 1.5 - Math.abs(4 * t - peak))));
+        return [channel(3), channel(2), channel(1)];
+    }
+}
@@ -0,0 +1,106 @@
+import dicomParser from 'dicom-parser';
+import * as zlib from 'zlib';
+
+export interface DicomReaderOptions {
+    // Transfer syntax assumed for raw datasets (no preamble, "DICM" marker or file meta group)
+    defaultTransferSyntax: string;
+}
+
+const EXPLICIT_VRS = new Set([
+    'AE', 'AS', 'AT', 'CS', 'DA', 'DS', 'DT', 'FD', 'FL', 'IS', 'LO', 'LT', 'OB', 'OD', 'OF', 'OL',
+    'OV', 'OW', 'PN', 'SH', 'SL', 'SQ', 'SS', 'ST', 'SV', 'TM', 'UC', 'UI', 'UL', 'UN', 'UR', 'US', 'UT', 'UV'
+]);
+
+const PREAMBLE_LENGTH = 128;
+
+// (7FE0,0001) Extended Offset Table / (7FE0,0002) Extended Offset Table Lengths share the pixel data group
+const PIXEL_DATA_GROUP = [0xE0, 0x7F];
+const PIXEL_DATA_ELEMENT = 0x10;
+
+// Parsing front-end around dicomParser.parseDicom that also accepts Deflated Explicit VR Little
+// Endian datasets and the header-less files found on older CD exports
+export class DicomReader {
+    static parse(byteArray: Uint8Array, options: DicomReaderOptions): dicomParser.DataSet {
+        byteArray = DicomReader.patchVeryLongVRs(byteArray);
+
+        const parseOptions: dicomParser.ParseDicomOptions = {
+            inflater: DicomReader.inflate
+        };
+
+        if (DicomReader.hasPart10Prefix(byteArray)) {
+            return dicomParser.parseDicom(byteArray, parseOptions);
+        }
+
+        // File meta group without the preamble: restore the preamble and parse as Part 10
+        if (DicomReader.startsWithMetaGroup(byteArray)) {
+            const part10 = new Uint8Array(PREAMBLE_LENGTH + 4 + byteArray.length);
+            part10.set([0x44, 0x49, 0x43, 0x4D], PREAMBLE_LENGTH); // "DICM"
+            part10.set(byteArray, PREAMBLE_LENGTH + 4);
+            return dicomParser.parseDicom(part10, parseOptions);
+        }
+
+        // Raw dataset: there is nothing to read the transfer syntax from, so detect or assume it
+        parseOptions.TransferSyntaxUID = DicomReader.detectRawTransferSyntax(byteArray) || options.defaultTransferSyntax;
+        return dicomParser.parseDicom(byteArray, parseOptions);
+    }
+
+    private static hasPart10Prefix(byteArray: Uint8Array): boolean {
+        return byteArray.length > PREAMBLE_LENGTH + 4 &&
+            byteArray[128] === 0x44 && byteArray[129] === 0x49 &&
+            byteArray[130] === 0x43 && byteArray[131] === 0x4D;
+    }
+
+    private static startsWithMetaGroup(byteArray: Uint8Array): boolean {
+        // (0002,xxxx) with an explicit VR, which the file meta group always uses
+        return byteArray.length > 8 && byteArray[0] === 0x02 && byteArray[1] === 0x00 &&
+            DicomReader.hasExplicitVR(byteArray);
+    }
+
+    private static hasExplicitVR(byteArray: Uint8Array): boolean {
+        const vr = String.fromCharCode(byteArray[4], byteArray[5]);
+        return EXPLICIT_VRS.has(vr);
+    }
+
+    // Explicit VR datasets announce themselves with a VR code after the first tag;
+    // implicit ones cannot be told apart from anything else
+    private static detectRawTransferSyntax(byteArray: Uint8Array): string | undefined {
+        if (byteArray.length < 8 || !DicomReader.hasExplicitVR(byteArray)) {
+            return undefined;
+        }
+        // Group numbers are small, so a zero first byte means the group is stored big endian
+        return byteArray[0] === 0x00 && byteArray[1] !== 0x00
+            ? '1.2.840.10008.1.2.2'  // Explicit VR Big Endian
+            : '1.2.840.10008.1.2.1'; // Explicit VR Little Endian
+    }
+
+    // dicomParser predates the 64-bit VRs and reads OV with a 2-byte length, which derails parsing right
+    // before the pixel data. OB has the same header layout, so relabel the extended offset table as OB.
+    // Works on a copy so the caller's bytes (e.g. for archiving) stay untouched.
+    private static patchVeryLongVRs(byteArray: Uint8Array): Uint8Array {
+        let patched: Uint8Array | null = null;
+        // Both elements precede the pixel data, so stop scanning once (7FE0,0010) is reached
+        for (let i = 0; i + 6 <= byteArray.length; i++) {
+            if (byteArray[i] !== PIXEL_DATA_GROUP[0] || byteArray[i + 1] !== PIXEL_DATA_GROUP[1] || byteArray[i + 3] !== 0x00) {
+                continue;
+            }
+            const element = byteArray[i + 2];
+            if (element === PIXEL_DATA_ELEMENT) {
+                break;
+            }
+            if ((element === 0x01 || element === 0x02) && byteArray[i + 4] === 0x4F && byteArray[i + 5] === 0x56) { // "OV"
+                patched = patched || byteArray.slice();
+                patched[i + 5] = 0x42; // "OB"
+            }
+        }
+        return patched || byteArray;
+    }
+
+    // Deflated Explicit VR Little Endian: everything after the file meta group is raw deflate data
+    private static inflate(byteArray: Uint8Array, position: number): Uint8Array {
+        const inflated = zlib.inflateRawSync(byteArray.subarray(position));
+        const fullByteArray = new Uint8Array(position + inflated.length);
+        fullByteArray.set(byteArray.subarray(0, position), 0);
+        fullByteArray.set(inflated, position);
+        return fullByteArray;
+    }
+}
@@ -0,0 +1,172 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+import { LookupTable, LookupTableReader } from './lookup-table';
+
+export type VOILUTFunction = 'LINEAR' | 'LINEAR_EXACT' | 'SIGMOID';
+
+export interface WindowSetting {
+    center: number;
+    width: number;
+}
+
+// The VOI stage is either a window with its function or an explicit VOI LUT
+export type VOITransform =
+    | { window: WindowSetting; func: VOILUTFunction }
+    | { lut: LookupTable };
+
+// Grayscale display chain of PS3.3 C.11: stored values -> Modality LUT -> VOI LUT -> Presentation LUT
+export class GrayscalePipeline {
+    // Modality LUT Sequence when present, otherwise Rescale Slope/Intercept
+    static applyModalityLUT(storedPixels: ArrayLike<number>, dataSet: dicomParser.DataSet): Float32Array {
+        const values = new Float32Array(storedPixels.length);
+
+        const item = GrayscalePipeline.firstItem(dataSet, DicomTags.ModalityLUTSequence);
+        const signed = dataSet.uint16(DicomTags.PixelRepresentation) === 1;
+        const lut = item && LookupTableReader.read(item, DicomTags.LUTDescriptor, DicomTags.LUTData, signed);
+        if (lut) {
+            for (let i = 0; i < values.length; i++) {
+                values[i] = LookupTableReader.lookup(lut, storedPixels[i]);
+            }
+            return values;
+        }
+
+        const rescaleSlope = dataSet.floatString(DicomTags.RescaleSlope) || 1;
+        const rescaleIntercept = dataSet.floatString(DicomTags.RescaleIntercept) || 0;
+        for (let i = 0; i < values.length; i++) {
+            values[i] = storedPixels[i] * rescaleSlope + rescaleIntercept;
+        }
+        return values;
+    }
+
+    static hasStoredVOI(dataSet: dicomParser.DataSet): boolean {
+        return !!dataSet.elements[DicomTags.WindowCenter] || !!dataSet.elements[DicomTags.VOILUTSequence];
+    }
+
+    // Window Center/Width first, then the VOI LUT Sequence, then the given automatic window,
+    // falling back to a window over the full value range
+    static getVOITransform(dataSet: dicomParser.DataSet, modalityValues: Float32Array, autoWindow?: WindowSetting): VOITransform {
+        const func = GrayscalePipeline.getVOILUTFunction(dataSet);
+
+        // A center of 0 is a valid setting
+        const center = dataSet.floatString(DicomTags.WindowCenter);
+        const width = dataSet.floatString(DicomTags.WindowWidth);
+        if (center !== undefined && !isNaN(center) && width) {
+            return { window: { center, width }, func };
+        }
+
+        const item = GrayscalePipeline.firstItem(dataSet, DicomTags.VOILUTSequence);
+        const lut = item && LookupTableReader.read(item, DicomTags.LUTDescriptor, DicomTags.LUTData, GrayscalePipeline.hasNegativeValues(modalityValues));
+        if (lut) {
+            return { lut };
+        }
+
+        return { window: autoWindow || GrayscalePipeline.getMinMaxWindow(modalityValues), func: 'LINEAR_EXACT' };
+    }
+
+    static getVOILUTFunction(dataSet: dicomParser.DataSet): VOILUTFunction {
+        const func = (dataSet.string(DicomTags.VOILUTFunction) || '').trim().toUpperCase();
+        return func === 'SIGMOID' || func === 'LINEAR_EXACT' ? func : 'LINEAR';
+    }
+
+    static getMinMaxWindow(modalityValues: Float32Array): WindowSetting {
+        let min = Infinity;
+        let max = -Infinity;
+        for (let i = 0; i < modalityValues.length; i++) {
+            min = Math.min(min, modalityValues[i]);
+            max = Math.max(max, modalityValues[i]);
+        }
+        // A uniform image still needs a non-zero width
+        return { center: (max + min) / 2, width: Math.max(max - min, 1) };
+    }
+
+    // Evenly spaced subset of the values, so percentiles of large images and series stay cheap
+    static sampleValues(values: Float32Array, maxSamples: number): Float32Array {
+        if (values.length <= maxSamples) {
+            return values.slice();
+        }
+        const step = values.length / maxSamples;
+        const samples = new Float32Array(maxSamples);
+        for (let i = 0; i < maxSamples; i++) {
+            samples[i] = values[Math.floor(i * step)];
+        }
+        return samples;
+    }
+
+    // Window spanning the given lower and upper percentiles, which keeps a few outlier pixels
+    // from flattening the contrast. Sorts the samples in place.
+    static getPercentileWindow(samples: Float32Array, lowerPercentile: number, upperPercentile: number): WindowSetting {
+        if (samples.length === 0) {
+            return { center: 0, width: 1 };
+        }
+        samples.sort();
+        const at = (percentile: number) => {
+            const clamped = Math.max(0, Math.min(100, percentile));
+            return samples[Math.min(samples.length - 1, Math.floor(clamped / 100 * samples.length))];
+        };
+        const low = at(Math.min(lowerPercentile, upperPercentile));
+        const high = at(Math.max(lowerPercentile, upperPercentile));
+        return { center: (low + high) / 2, width: Math.max(high - low, 1) };
+    }
+
+    // MONOCHROME1 displays the lowest value as white, as does an INVERSE Presentation LUT Shape.
+    // Images that declare both describe the same inversion, so it is applied once.
+    static isInverted(dataSet: dicomParser.DataSet): boolean {
+        const photometric = dataSet.string(DicomTags.PhotometricInterpretation);
+        const shape = (dataSet.string(DicomTags.PresentationLUTShape) || '').trim().toUpperCase();
+        return photometric === 'MONOCHROME1' || shape === 'INVERSE';
+    }
+
+    // Applies the VOI transform and the presentation polarity, producing 8-bit display values
+    static render(modalityValues: Float32Array, voi: VOITransform, inverted: boolean): Uint8Array {
+        const output = new Uint8Array(modalityValues.length);
+        const toDisplay = 'lut' in voi
+            ? GrayscalePipeline.lutFunction(voi.lut)
+            : GrayscalePipeline.windowFunction(voi.window, voi.func);
+
+        for (let i = 0; i < output.length; i++) {
+            let normalized = toDisplay(modalityValues[i]);
+            normalized = normalized < 0 ? 0 : normalized > 1 ? 1 : normalized;
+            const intensity = Math.round(normalized * 255);
+            output[i] = inverted ? 255 - intensity : intensity;
+        }
+        return output;
+    }
+
+    // Window functions of C.11.2.1.2, normalized to [0, 1]
+    private static windowFunction(window: WindowSetting, func: VOILUTFunction): (value: number) => number {
+        const { center, width } = window;
+        switch (func) {
+            case 'SIGMOID':
+                return value => 1 / (1 + Math.exp(-4 * (value - center) / width));
+            case 'LINEAR_EXACT':
+                return value => (value - center) / width + 0.5;
+            default: {
+                // LINEAR places the ramp on pixel centers, hence the half-unit offsets
+                const span = Math.max(width - 1, 1);
+                return value => (value - (center - 0.5)) / span + 0.5;
+            }
+        }
+    }
+
+    private static lutFunction(lut: LookupTable): (value: number) => number {
+        // The descriptor's bit depth sets the output range, unless the entries exceed it
+        let max = Math.pow(2, lut.bits) - 1;
+        for (let i = 0; i < lut.data.length; i++) {
+            max = Math.max(max, lut.data[i]);
+        }
+        return value => LookupTableReader.lookup(lut, value) / max;
+    }
+
+    private static hasNegativeValues(values: Float32Array): boolean {
+        for (let i = 0; i < values.length; i++) {
+            if (values[i] < 0) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private static firstItem(dataSet: dicomParser.DataSet, sequenceTag: string): dicomParser.DataSet | undefined {
+        return dataSet.elements[sequenceTag]?.items?.[0]?.dataSet;
+    }
+}
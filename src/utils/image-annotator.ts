@@ -0,0 +1,162 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+import { DisplayFrame } from '../models/types';
+import { BitmapFont } from './bitmap-font';
+import { VOITransform } from './grayscale-pipeline';
+import { SliceOrder } from './slice-order';
+
+// Lines of text for each corner of the image
+export interface CornerText {
+    topLeft: string[];
+    topRight: string[];
+    bottomLeft: string[];
+    bottomRight: string[];
+}
+
+// Distance of text and scale bar from the image edges, in font pixels
+const MARGIN = 3;
+// Extra space between lines of text, in font pixels
+const LINE_GAP = 1;
+// The scale bar is at most this fraction of the image width
+const SCALE_BAR_FRACTION = 0.25;
+
+// Burns identifying text and a calibrated scale bar into rendered images, so an image copied out of the vault
+// still says what it shows
+export class ImageAnnotator {
+    // Patient initials and study date, series and instance number, window and slice location
+    static getCornerText(dataSet: dicomParser.DataSet, frameIndex: number, frameCount: number, voi?: VOITransform): CornerText {
+        const text: CornerText = { topLeft: [], topRight: [], bottomLeft: [], bottomRight: [] };
+        const value = (tag: string) => (dataSet.string(tag) || '').trim();
+
+        const initials = ImageAnnotator.getInitials(value(DicomTags.PatientName));
+        if (initials) text.topLeft.push(initials);
+        const studyDate = value(DicomTags.StudyDate);
+        if (studyDate) {
+            text.topLeft.push(/^\d{8}$/.test(studyDate)
+                ? `${studyDate.slice(0, 4)}-${studyDate.slice(4, 6)}-${studyDate.slice(6, 8)}`
+                : studyDate);
+        }
+
+        const modality = value(DicomTags.Modality);
+        if (modality) text.topRight.push(modality);
+        if (value(DicomTags.SeriesNumber)) text.topRight.push(`Se: ${value(DicomTags.SeriesNumber)}`);
+        if (value(DicomTags.InstanceNumber)) text.topRight.push(`Im: ${value(DicomTags.InstanceNumber)}`);
+        if (frameCount > 1) text.topRight.push(`Fr: ${frameIndex + 1}/${frameCount}`);
+
+        if (voi && 'window' in voi) {
+            text.bottomLeft.push(`W: ${ImageAnnotator.formatNumber(voi.window.width)} L: ${ImageAnnotator.formatNumber(voi.window.center)}`);
+        } else if (voi) {
+            text.bottomLeft.push('VOI LUT');
+        }
+
+        const position = frameCount > 1 ? undefined : SliceOrder.getSlicePosition(dataSet);
+        if (position !== undefined) text.bottomRight.push(`Loc: ${position.toFixed(1)} mm`);
+        return text;
+    }
+
+    // Pixel spacing in millimeters, from Pixel Spacing or, for projection images, Imager Pixel Spacing.
+    // The row spacing (between rows, so vertical) comes first in both.
+    static getPixelSpacing(dataSet: dicomParser.DataSet): { row: number; column: number } | undefined {
+        const spacingTag = dataSet.elements[DicomTags.PixelSpacing] ? DicomTags.PixelSpacing : DicomTags.ImagerPixelSpacing;
+        const row = dataSet.floatString(spacingTag, 0);
+        const column = dataSet.floatString(spacingTag, 1) || row;
+        return row && column && row > 0 && column > 0 ? { row, column } : undefined;
+    }
+
+    // Copy of the frame with the corner text and, given the column spacing, a scale bar at the bottom center
+    static annotate(frame: DisplayFrame, text?: CornerText, columnSpacing?: number): DisplayFrame {
+        const annotated: DisplayFrame = { ...frame, samples: frame.samples.slice() };
+        const scale = Math.max(1, Math.round(Math.min(frame.columns, frame.rows) / 256));
+        const margin = MARGIN * scale;
+
+        if (text) {
+            const lineHeight = BitmapFont.measure('', scale).height + LINE_GAP * scale;
+            const drawLines = (lines: string[], alignRight: boolean, fromBottom: boolean) => {
+                lines.forEach((line, index) => {
+                    const width = BitmapFont.measure(line, scale).width;
+                    const x = alignRight ? frame.columns - margin - width : margin;
+                    const y = fromBottom
+                        ? frame.rows - margin - (lines.length - index) * lineHeight
+                        : margin + index * lineHeight;
+                    BitmapFont.drawText(annotated, line, x, y, scale);
+                });
+            };
+            drawLines(text.topLeft, false, false);
+            drawLines(text.topRight, true, false);
+            drawLines(text.bottomLeft, false, true);
+            drawLines(text.bottomRight, true, true);
+        }
+
+        if (columnSpacing && columnSpacing > 0) {
+            ImageAnnotator.drawScaleBar(annotated, columnSpacing, scale, margin);
+        }
+        return annotated;
+    }
+
+    // A bar of a round length (1, 2 or 5 times a power of ten millimeters) with end ticks, labelled above
+    private static drawScaleBar(frame: DisplayFrame, columnSpacing: number, scale: number, margin: number): void {
+        const maxLength = frame.columns * columnSpacing * SCALE_BAR_FRACTION;
+        let length = 0;
+        for (let power = Math.floor(Math.log10(maxLength)); power >= -1 && length === 0; power--) {
+            for (const step of [5, 2, 1]) {
+                if (step * Math.pow(10, power) <= maxLength) {
+                    length = step * Math.pow(10, power);
+                    break;
+                }
+            }
+        }
+        const barWidth = Math.round(length / columnSpacing);
+        if (length === 0 || barWidth < 4 * scale) {
+            return;
+        }
+
+        const thickness = 2 * scale;
+        const tickHeight = 3 * scale;
+        const left = Math.floor((frame.columns - barWidth) / 2);
+        const bottom = frame.rows - margin;
+        const white = [255, 255, 255];
+        const black = [0, 0, 0];
+        // Bar and end ticks as x, y, width, height
+        const shapes = [
+            [left, bottom - thickness, barWidth, thickness],
+            [left, bottom - thickness - tickHeight, thickness, tickHeight],
+            [left + barWidth - thickness, bottom - thickness - tickHeight, thickness, tickHeight]
+        ];
+        // One-pixel black outline first, so the bar shows on bright and dark backgrounds
+        for (const [x, y, width, height] of shapes) {
+            ImageAnnotator.fillRect(frame, x - 1, y - 1, width + 2, height + 2, black);
+        }
+        for (const [x, y, width, height] of shapes) {
+            ImageAnnotator.fillRect(frame, x, y, width, height, white);
+        }
+
+        const label = `${ImageAnnotator.formatNumber(length)} mm`;
+        const size = BitmapFont.measure(label, scale);
+        BitmapFont.drawText(frame, label, Math.floor((frame.columns - size.width) / 2), bottom - thickness - tickHeight - size.height, scale);
+    }
+
+    private static fillRect(frame: DisplayFrame, x: number, y: number, width: number, height: number, color: number[]): void {
+        for (let row = Math.max(0, y); row < Math.min(frame.rows, y + height); row++) {
+            for (let column = Math.max(0, x); column < Math.min(frame.columns, x + width); column++) {
+                const index = row * frame.columns + column;
+                if (frame.channels === 1) {
+                    frame.samples[index] = color[0];
+                } else {
+                    frame.samples.set(color, index * 3);
+                }
+            }
+        }
+    }
+
+    // Person names are Family^Given^Middle; initials are given in reading order
+    private static getInitials(name: string): string {
+        const [family = '', given = '', middle = ''] = name.split('=')[0].split('^');
+        return [given, middle, family]
+            .map(part => part.trim().charAt(0).toUpperCase())
+            .join('');
+    }
+
+    private static formatNumber(value: number): string {
+        return String(Math.round(value * 100) / 100);
+    }
+}
@@ -0,0 +1,56 @@
+// Output formats for converted images; png16 keeps the full stored range of grayscale images
+export type ImageFormat = 'png' | 'png16' | 'jpeg' | 'webp' | 'tiff';
+
+// Formats of series animations
+export type AnimationFormat = 'gif' | 'apng';
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+    png: 'png',
+    png16: 'png',
+    jpeg: 'jpg',
+    webp: 'webp',
+    tiff: 'tiff'
+};
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+    png: 'image/png',
+    png16: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    tiff: 'image/tiff'
+};
+
+// Extensions of every format the plugin writes, including earlier conversions in another format
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'webp', 'tif', 'tiff']);
+
+export class ImageFormats {
+    static getExtension(format: ImageFormat): string {
+        return EXTENSIONS[format] || 'png';
+    }
+
+    static getMimeType(format: ImageFormat): string {
+        return MIME_TYPES[format] || 'image/png';
+    }
+
+    // APNG files keep the .png extension so Obsidian embeds them
+    static getAnimationExtension(format: AnimationFormat): string {
+        return format === 'apng' ? 'png' : 'gif';
+    }
+
+    static isImageExtension(extension: string): boolean {
+        return IMAGE_EXTENSIONS.has(extension.toLowerCase());
+    }
+
+    // Lossy formats take a quality from 1 to 100
+    static isLossy(format: ImageFormat): boolean {
+        return format === 'jpeg' || format === 'webp';
+    }
+
+    static toDataURL(data: Uint8Array, mimeType: string): string {
+        return `data:${mimeType};base64,${Buffer.from(data).toString('base64')}`;
+    }
+
+    static fromDataURL(dataUrl: string): Buffer {
+        return Buffer.from(dataUrl.replace(/^data:[^;,]+;base64,/, ''), 'base64');
+    }
+}
@@ -0,0 +1,95 @@
+import { DisplayFrame } from '../models/types';
+
+// Source pixels covering one destination pixel along an axis, with their share of its area
+interface Contribution {
+    start: number;
+    weights: Float32Array;
+}
+
+// Resizes display pixels by area averaging: every destination pixel is the mean of the source area it
+// covers, which avoids the aliasing of nearest-neighbour sampling when shrinking
+export class ImageResampler {
+    static resize(frame: DisplayFrame, columns: number, rows: number): DisplayFrame {
+        columns = Math.max(1, Math.round(columns));
+        rows = Math.max(1, Math.round(rows));
+        if (columns === frame.columns && rows === frame.rows) {
+            return frame;
+        }
+
+        const values = ImageResampler.resample(frame.samples, frame.columns, frame.rows, frame.channels, columns, rows);
+        const samples = new Uint8Array(values.length);
+        for (let i = 0; i < values.length; i++) {
+            samples[i] = Math.min(255, Math.round(values[i]));
+        }
+        return { columns, rows, channels: frame.channels, samples, delay: frame.delay };
+    }
+
+    // Area average of interleaved samples of any range, such as stored pixel values, at the given whole-pixel size
+    static resample(samples: ArrayLike<number>, sourceColumns: number, sourceRows: number, channels: number, columns: number, rows: number): Float32Array {
+        const horizontal = ImageResampler.getContributions(sourceColumns, columns);
+        const vertical = ImageResampler.getContributions(sourceRows, rows);
+
+        // Columns first, into an intermediate image with the source's rows
+        const intermediate = new Float32Array(columns * sourceRows * channels);
+        for (let y = 0; y < sourceRows; y++) {
+            const sourceRow = y * sourceColumns;
+            const targetRow = y * columns;
+            for (let x = 0; x < columns; x++) {
+                const { start, weights } = horizontal[x];
+                for (let c = 0; c < channels; c++) {
+                    let sum = 0;
+                    for (let i = 0; i < weights.length; i++) {
+                        sum += samples[(sourceRow + start + i) * channels + c] * weights[i];
+                    }
+                    intermediate[(targetRow + x) * channels + c] = sum;
+                }
+            }
+        }
+
+        const values = new Float32Array(columns * rows * channels);
+        for (let y = 0; y < rows; y++) {
+            const { start, weights } = vertical[y];
+            for (let x = 0; x < columns * channels; x++) {
+                let sum = 0;
+                for (let i = 0; i < weights.length; i++) {
+                    sum += intermediate[(start + i) * columns * channels + x] * weights[i];
+                }
+                values[y * columns * channels + x] = sum;
+            }
+        }
+        return values;
+    }
+
+    // Largest size with the frame's aspect ratio that fits the given box
+    static fit(frame: DisplayFrame, maxColumns: number, maxRows: number): DisplayFrame {
+        const scale = Math.min(maxColumns / frame.columns, maxRows / frame.rows);
+        return ImageResampler.resize(frame, frame.columns * scale, frame.rows * scale);
+    }
+
+    // Size with the same aspect ratio whose longer side is at most the given number of pixels; 0 means no limit
+    static getLimitedSize(columns: number, rows: number, maxDimension: number): { columns: number; rows: number } {
+        if (maxDimension <= 0 || Math.max(columns, rows) <= maxDimension) {
+            return { columns, rows };
+        }
+        const scale = maxDimension / Math.max(columns, rows);
+        return { columns: Math.max(1, Math.round(columns * scale)), rows: Math.max(1, Math.round(rows * scale)) };
+    }
+
+    private static getContributions(sourceSize: number, targetSize: number): Contribution[] {
+        const ratio = sourceSize / targetSize;
+        const contributions: Contribution[] = [];
+        for (let i = 0; i < targetSize; i++) {
+            const from = i * ratio;
+            const to = Math.min(sourceSize, (i + 1) * ratio);
+            const start = Math.floor(from);
+            const end = Math.min(sourceSize, Math.ceil(to));
+            const weights = new Float32Array(Math.max(1, end - start));
+            for (let j = 0; j < weights.length; j++) {
+                const overlap = Math.min(to, start + j + 1) - Math.max(from, start + j);
+                weights[j] = Math.max(0, overlap) / (to - from);
+            }
+            contributions.push({ start, weights });
+        }
+        return contributions;
+    }
+}
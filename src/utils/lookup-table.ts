@@ -0,0 +1,64 @@
+import dicomParser from 'dicom-parser';
+
+// A LUT Descriptor/LUT Data pair (PS3.3 C.11.1.1.1)
+export interface LookupTable {
+    firstMapped: number;    // Input value mapped to the first entry
+    bits: number;           // Bits per entry
+    data: Uint16Array;
+}
+
+export interface LUTDescriptor {
+    entries: number;
+    firstMapped: number;
+    bits: number;
+}
+
+export class LookupTableReader {
+    // Descriptor: number of entries (0 means 65536), first input value mapped, bits per entry.
+    // The first mapped value is signed when the input values can be negative.
+    static readDescriptor(dataSet: dicomParser.DataSet, tag: string, signed: boolean): LUTDescriptor {
+        const element = dataSet.elements[tag];
+        const signedFirst = element.vr === 'SS' || (element.vr === undefined && signed);
+        return {
+            entries: dataSet.uint16(tag, 0) || 65536,
+            firstMapped: (signedFirst ? dataSet.int16(tag, 1) : dataSet.uint16(tag, 1)) || 0,
+            bits: dataSet.uint16(tag, 2) || 16
+        };
+    }
+
+    static readData(dataSet: dicomParser.DataSet, tag: string, entries: number, bits: number): Uint16Array {
+        const element = dataSet.elements[tag];
+        // 8-bit tables are normally padded to 16-bit words, but some writers pack two entries per word
+        if (bits === 8 && element.length < entries * 2) {
+            const bytes = dataSet.byteArray.subarray(element.dataOffset, element.dataOffset + entries);
+            return Uint16Array.from(bytes);
+        }
+        return LookupTableReader.readWords(dataSet, tag).subarray(0, entries);
+    }
+
+    static readWords(dataSet: dicomParser.DataSet, tag: string): Uint16Array {
+        const element = dataSet.elements[tag];
+        const words = new Uint16Array(element.length >> 1);
+        for (let i = 0; i < words.length; i++) {
+            words[i] = dataSet.uint16(tag, i) || 0;
+        }
+        return words;
+    }
+
+    static read(dataSet: dicomParser.DataSet, descriptorTag: string, dataTag: string, signed: boolean): LookupTable | undefined {
+        if (!dataSet.elements[descriptorTag] || !dataSet.elements[dataTag]) {
+            return undefined;
+        }
+        const { entries, firstMapped, bits } = LookupTableReader.readDescriptor(dataSet, descriptorTag, signed);
+        return { firstMapped, bits, data: LookupTableReader.readData(dataSet, dataTag, entries, bits) };
+    }
+
+    // Values outside the table map to its first or last entry
+    static lookup(lut: LookupTable, value: number): number {
+        const index = Math.round(value) - lut.firstMapped;
+        if (index <= 0) {
+            return lut.data[0];
+        }
+        return lut.data[Math.min(index, lut.data.length - 1)];
+    }
+}
@@ -0,0 +1,94 @@
+import { DisplayFrame, MosaicOptions, MosaicTile } from '../models/types';
+import { BitmapFont } from './bitmap-font';
+import { ImageResampler } from './image-resampler';
+
+// Black gap between tiles in pixels
+const TILE_GAP = 2;
+// Distance of the labels from the tile edges
+const LABEL_MARGIN = 2;
+
+// Lays out the images of a series as one contact sheet
+export class MosaicRenderer {
+    // Name of the mosaic file in its series folder
+    static getFileName(seriesName: string): string {
+        return `${seriesName} mosaic.png`;
+    }
+
+    // Every Nth image up to the size of the grid, or, without an interval, images spread evenly over the
+    // series so the first and last are always included
+    static selectTiles(tiles: MosaicTile[], options: MosaicOptions): MosaicTile[] {
+        const capacity = Math.max(1, options.columns * options.rows);
+        if (options.interval > 0) {
+            return tiles.filter((_, index) => index % options.interval === 0).slice(0, capacity);
+        }
+        if (tiles.length <= capacity) {
+            return tiles;
+        }
+        if (capacity === 1) {
+            return [tiles[0]];
+        }
+        return Array.from({ length: capacity }, (_, i) => tiles[Math.round(i * (tiles.length - 1) / (capacity - 1))]);
+    }
+
+    // Tiles share the first image's aspect ratio; other images are fitted inside and centered. The sheet is
+    // grayscale unless any image is in color.
+    static render(tiles: MosaicTile[], options: MosaicOptions): DisplayFrame | undefined {
+        const selected = MosaicRenderer.selectTiles(tiles, options);
+        if (selected.length === 0) {
+            return undefined;
+        }
+
+        const first = selected[0].frame;
+        const tileWidth = Math.max(1, Math.round(options.tileSize));
+        const tileHeight = Math.max(1, Math.round(tileWidth * first.rows / first.columns));
+        const gridColumns = Math.min(Math.max(1, options.columns), selected.length);
+        const gridRows = Math.ceil(selected.length / gridColumns);
+        const channels = selected.some(tile => tile.frame.channels === 3) ? 3 : 1;
+
+        const sheet: DisplayFrame = {
+            columns: gridColumns * tileWidth + (gridColumns - 1) * TILE_GAP,
+            rows: gridRows * tileHeight + (gridRows - 1) * TILE_GAP,
+            channels,
+            samples: new Uint8Array(0)
+        };
+        sheet.samples = new Uint8Array(sheet.columns * sheet.rows * channels);
+
+        const labelScale = Math.max(1, Math.floor(tileWidth / 128));
+        selected.forEach((tile, index) => {
+            const left = (index % gridColumns) * (tileWidth + TILE_GAP);
+            const top = Math.floor(index / gridColumns) * (tileHeight + TILE_GAP);
+            const image = ImageResampler.fit(tile.frame, tileWidth, tileHeight);
+            MosaicRenderer.copyInto(sheet,
+                image,
+                left + Math.floor((tileWidth - image.columns) / 2),
+                top + Math.floor((tileHeight - image.rows) / 2));
+
+            if (options.labels) {
+                BitmapFont.drawText(sheet, String(tile.sliceNumber), left + LABEL_MARGIN, top + LABEL_MARGIN, labelScale);
+                if (tile.position !== undefined) {
+                    const label = `${tile.position.toFixed(1)} mm`;
+                    const { height } = BitmapFont.measure(label, labelScale);
+                    BitmapFont.drawText(sheet, label, left + LABEL_MARGIN, top + tileHeight - height - LABEL_MARGIN, labelScale);
+                }
+            }
+        });
+        return sheet;
+    }
+
+    // Grayscale images are expanded when the sheet is in color
+    private static copyInto(sheet: DisplayFrame, image: DisplayFrame, left: number, top: number): void {
+        for (let y = 0; y < image.rows; y++) {
+            for (let x = 0; x < image.columns; x++) {
+                const source = (y * image.columns + x) * image.channels;
+                const target = ((top + y) * sheet.columns + left + x) * sheet.channels;
+                if (sheet.channels === image.channels) {
+                    for (let c = 0; c < sheet.channels; c++) {
+                        sheet.samples[target + c] = image.samples[source + c];
+                    }
+                } else {
+                    sheet.samples.fill(image.samples[source], target, target + 3);
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,150 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+import { Volume } from '../models/types';
+import { SliceOrder } from './slice-order';
+
+export type ReformatPlane = 'coronal' | 'sagittal';
+
+// Geometry shared by every slice of a regular stack
+export type StackGeometry = Pick<Volume, 'columns' | 'rows' | 'columnSpacing' | 'rowSpacing' | 'sliceSpacing' | 'normal'>;
+
+// One reformatted image, resampled to square pixels
+export interface ReformatImage {
+    columns: number;
+    rows: number;
+    values: Float32Array;
+    pixelSpacing: number;
+}
+
+// Fewer slices do not make a useful reformat
+const MIN_SLICES = 3;
+// Orientations that differ by less than this (direction cosine difference) count as equal
+const ORIENTATION_TOLERANCE = 1e-3;
+// Gaps between slices may differ from their mean by this fraction
+const SPACING_TOLERANCE = 0.1;
+// Smallest z component of the slice normal for a stack to count as axial
+const MIN_AXIAL_NORMAL = 0.8;
+
+// Coronal and sagittal images reformatted from an axial stack
+export class MultiplanarReformat {
+    static readonly PLANES: ReformatPlane[] = ['coronal', 'sagittal'];
+
+    // Folder next to Images that holds the plane's image set
+    static getFolderName(plane: ReformatPlane): string {
+        return plane === 'coronal' ? 'Coronal' : 'Sagittal';
+    }
+
+    // Geometry of slices (in slice order) that form a regular axial stack: single-frame grayscale images of one
+    // size and orientation, with pixel spacing, at strictly increasing and evenly spaced positions.
+    // Undefined when any of that does not hold.
+    static getRegularStack(dataSets: dicomParser.DataSet[]): StackGeometry | undefined {
+        if (dataSets.length < MIN_SLICES) {
+            return undefined;
+        }
+
+        const first = dataSets[0];
+        const columns = first.uint16(DicomTags.Columns);
+        const rows = first.uint16(DicomTags.Rows);
+        const normal = SliceOrder.getSliceNormal(first);
+        const rowSpacing = first.floatString(DicomTags.PixelSpacing, 0);
+        const columnSpacing = first.floatString(DicomTags.PixelSpacing, 1) || rowSpacing;
+        if (!columns || !rows || !normal || !rowSpacing || !columnSpacing || rowSpacing <= 0 || columnSpacing <= 0) {
+            return undefined;
+        }
+        if (Math.abs(normal[2]) / Math.hypot(...normal) < MIN_AXIAL_NORMAL) {
+            return undefined;
+        }
+
+        const orientation = first.string(DicomTags.ImageOrientationPatient) || '';
+        const positions: number[] = [];
+        for (const dataSet of dataSets) {
+            if (dataSet.uint16(DicomTags.Columns) !== columns || dataSet.uint16(DicomTags.Rows) !== rows
+                || (dataSet.uint16(DicomTags.SamplesPerPixel) || 1) !== 1
+                || (dataSet.intString(DicomTags.NumberOfFrames) || 1) > 1
+                || !MultiplanarReformat.hasOrientation(dataSet, orientation)) {
+                return undefined;
+            }
+            const position = SliceOrder.getProjectedPosition(dataSet, normal);
+            if (position === undefined) {
+                return undefined;
+            }
+            positions.push(position);
+        }
+
+        const gaps = positions.slice(1).map((position, i) => position - positions[i]);
+        const sliceSpacing = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+        if (gaps.some(gap => gap <= 0 || Math.abs(gap - sliceSpacing) > sliceSpacing * SPACING_TOLERANCE)) {
+            return undefined;
+        }
+
+        const length = Math.hypot(...normal);
+        return {
+            columns,
+            rows,
+            columnSpacing,
+            rowSpacing,
+            sliceSpacing,
+            normal: [normal[0] / length, normal[1] / length, normal[2] / length]
+        };
+    }
+
+    // Coronal images run through the rows of the stack, sagittal ones through its columns
+    static getImageCount(volume: Volume, plane: ReformatPlane): number {
+        return plane === 'coronal' ? volume.rows : volume.columns;
+    }
+
+    // The index-th coronal or sagittal image, with the most superior slice at the top
+    static reformat(volume: Volume, plane: ReformatPlane, index: number): ReformatImage {
+        const coronal = plane === 'coronal';
+        const columns = coronal ? volume.columns : volume.rows;
+        const sliceLength = volume.columns * volume.rows;
+
+        const sliceRows = new Float32Array(columns * volume.slices);
+        for (let slice = 0; slice < volume.slices; slice++) {
+            for (let x = 0; x < columns; x++) {
+                const offset = coronal ? index * volume.columns + x : x * volume.columns + index;
+                sliceRows[slice * columns + x] = volume.values[slice * sliceLength + offset];
+            }
+        }
+        return MultiplanarReformat.resampleSlices(sliceRows, columns, volume, coronal ? volume.columnSpacing : volume.rowSpacing);
+    }
+
+    // Turns an image with one row per slice, in slice order, into an image with the given square pixel size.
+    // Slices are interpolated linearly and the most superior one ends up at the top.
+    static resampleSlices(sliceRows: Float32Array, columns: number, volume: Pick<Volume, 'slices' | 'sliceSpacing' | 'normal'>, pixelSpacing: number): ReformatImage {
+        const rows = Math.max(1, Math.round(volume.slices * volume.sliceSpacing / pixelSpacing));
+        const superiorLast = volume.normal[2] > 0;
+
+        const values = new Float32Array(columns * rows);
+        for (let y = 0; y < rows; y++) {
+            let slice = (y + 0.5) * volume.slices / rows - 0.5;
+            slice = Math.max(0, Math.min(volume.slices - 1, slice));
+            if (superiorLast) {
+                slice = volume.slices - 1 - slice;
+            }
+            const lower = Math.floor(slice);
+            const upper = Math.min(volume.slices - 1, lower + 1);
+            const fraction = slice - lower;
+            for (let x = 0; x < columns; x++) {
+                const a = sliceRows[lower * columns + x];
+                const b = sliceRows[upper * columns + x];
+                values[y * columns + x] = a + (b - a) * fraction;
+            }
+        }
+        return { columns, rows, values, pixelSpacing };
+    }
+
+    private static hasOrientation(dataSet: dicomParser.DataSet, orientation: string): boolean {
+        if (dataSet.string(DicomTags.ImageOrientationPatient) === orientation) {
+            return true;
+        }
+        const reference = orientation.split('\\').map(Number);
+        for (let i = 0; i < 6; i++) {
+            const value = dataSet.floatString(DicomTags.ImageOrientationPatient, i);
+            if (value === undefined || !(Math.abs(value - reference[i]) <= ORIENTATION_TOLERANCE)) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
@@ -0,0 +1,125 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+import { DisplayFrame } from '../models/types';
+
+// One overlay plane of the repeating groups 6000-601E (PS3.3 C.9.2)
+export interface OverlayPlane {
+    group: number;
+    rows: number;
+    columns: number;
+    originRow: number;          // 1-based image row of the overlay's top-left pixel
+    originColumn: number;
+    firstFrame: number;         // 0-based image frame of the overlay's first frame
+    frameCount?: number;        // Undefined when the overlay applies to every frame
+    data?: Uint8Array;          // Packed bits, least significant bit first; undefined for embedded overlays
+    bitPosition: number;        // Bit of each pixel word holding an embedded overlay
+}
+
+const FIRST_GROUP = 0x6000;
+const LAST_GROUP = 0x601E;
+
+// Overlay bitmaps, stored in their own data element or in unused high bits of the pixel data, drawn as a
+// colored layer over the rendered image
+export class OverlayPlanes {
+    static read(dataSet: dicomParser.DataSet): OverlayPlane[] {
+        const planes: OverlayPlane[] = [];
+        for (let group = FIRST_GROUP; group <= LAST_GROUP; group += 2) {
+            const tag = (baseTag: string) => `x${group.toString(16)}${baseTag.substring(5)}`;
+            const rows = dataSet.uint16(tag(DicomTags.OverlayRows));
+            const columns = dataSet.uint16(tag(DicomTags.OverlayColumns));
+            if (!rows || !columns) {
+                continue;
+            }
+
+            const dataElement = dataSet.elements[tag(DicomTags.OverlayData)];
+            const bitsAllocated = dataSet.uint16(tag(DicomTags.OverlayBitsAllocated)) || 1;
+            const bitPosition = dataSet.uint16(tag(DicomTags.OverlayBitPosition)) || 0;
+            // Without Overlay Data the bitmap can only be embedded in the pixel data (retired, but still found)
+            if (!dataElement && bitsAllocated === 1) {
+                continue;
+            }
+
+            const frameCount = dataSet.intString(tag(DicomTags.NumberOfFramesInOverlay));
+            planes.push({
+                group,
+                rows,
+                columns,
+                originRow: dataSet.int16(tag(DicomTags.OverlayOrigin), 0) ?? 1,
+                originColumn: dataSet.int16(tag(DicomTags.OverlayOrigin), 1) ?? 1,
+                firstFrame: Math.max(0, (dataSet.uint16(tag(DicomTags.ImageFrameOrigin)) || 1) - 1),
+                frameCount: frameCount && frameCount > 0 ? frameCount : undefined,
+                data: dataElement
+                    ? new Uint8Array(dataSet.byteArray.buffer, dataSet.byteArray.byteOffset + dataElement.dataOffset, dataElement.length)
+                    : undefined,
+                bitPosition
+            });
+        }
+        return planes;
+    }
+
+    static hasEmbeddedPlanes(planes: OverlayPlane[]): boolean {
+        return planes.some(plane => !plane.data);
+    }
+
+    // Union of the planes that cover the given image frame, one byte per image pixel (1 = overlay), or undefined
+    // when nothing is drawn. Embedded planes need the frame's raw pixel words, including the unused high bits.
+    static getFrameMask(planes: OverlayPlane[], frameIndex: number, columns: number, rows: number, pixelWords?: ArrayLike<number>): Uint8Array | undefined {
+        let mask: Uint8Array | undefined;
+        for (const plane of planes) {
+            const overlayFrame = plane.frameCount === undefined ? 0 : frameIndex - plane.firstFrame;
+            if (overlayFrame < 0 || (plane.frameCount !== undefined && overlayFrame >= plane.frameCount)) {
+                continue;
+            }
+            if (!plane.data && !pixelWords) {
+                continue;
+            }
+
+            mask = mask || new Uint8Array(columns * rows);
+            const frameOffset = overlayFrame * plane.rows * plane.columns;
+            for (let y = 0; y < plane.rows; y++) {
+                const imageRow = plane.originRow - 1 + y;
+                if (imageRow < 0 || imageRow >= rows) {
+                    continue;
+                }
+                for (let x = 0; x < plane.columns; x++) {
+                    const imageColumn = plane.originColumn - 1 + x;
+                    if (imageColumn < 0 || imageColumn >= columns) {
+                        continue;
+                    }
+                    const bit = frameOffset + y * plane.columns + x;
+                    const set = plane.data
+                        ? plane.data[bit >> 3] & (1 << (bit & 7))
+                        : Math.floor((pixelWords as ArrayLike<number>)[imageRow * columns + imageColumn] / Math.pow(2, plane.bitPosition)) & 1;
+                    if (set) {
+                        mask[imageRow * columns + imageColumn] = 1;
+                    }
+                }
+            }
+        }
+        return mask;
+    }
+
+    // RGB copy of the frame with the overlay pixels in the given color
+    static composite(frame: DisplayFrame, mask: Uint8Array, color: [number, number, number]): DisplayFrame {
+        const pixelCount = frame.columns * frame.rows;
+        const samples = new Uint8Array(pixelCount * 3);
+        for (let i = 0; i < pixelCount; i++) {
+            if (mask[i]) {
+                samples.set(color, i * 3);
+            } else if (frame.channels === 1) {
+                samples.fill(frame.samples[i], i * 3, i * 3 + 3);
+            } else {
+                samples.set(frame.samples.subarray(i * 3, i * 3 + 3), i * 3);
+            }
+        }
+        return { ...frame, channels: 3, samples };
+    }
+
+    // '#rrggbb' as RGB, yellow when the value cannot be read
+    static parseColor(hex: string): [number, number, number] {
+        const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+        return match
+            ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)]
+            : [255, 255, 0];
+    }
+}
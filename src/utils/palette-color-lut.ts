@@ -0,0 +1,130 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+import { LookupTableReader } from './lookup-table';
+
+const CHANNELS = [
+    {
+        descriptor: DicomTags.RedPaletteColorLookupTableDescriptor,
+        data: DicomTags.RedPaletteColorLookupTableData,
+        segmented: DicomTags.SegmentedRedPaletteColorLookupTableData
+    },
+    {
+        descriptor: DicomTags.GreenPaletteColorLookupTableDescriptor,
+        data: DicomTags.GreenPaletteColorLookupTableData,
+        segmented: DicomTags.SegmentedGreenPaletteColorLookupTableData
+    },
+    {
+        descriptor: DicomTags.BluePaletteColorLookupTableDescriptor,
+        data: DicomTags.BluePaletteColorLookupTableData,
+        segmented: DicomTags.SegmentedBluePaletteColorLookupTableData
+    }
+];
+
+// Red, green and blue lookup tables of a PALETTE COLOR image (PS3.3 C.7.6.3.1.5), reduced to 8 bits
+export class PaletteColorLUT {
+    private constructor(
+        private channels: Uint8Array[],
+        private firstMapped: number
+    ) { }
+
+    static fromDataSet(dataSet: dicomParser.DataSet): PaletteColorLUT {
+        const signed = dataSet.uint16(DicomTags.PixelRepresentation) === 1;
+        let firstMapped = 0;
+
+        const channels = CHANNELS.map(tags => {
+            if (!dataSet.elements[tags.descriptor]) {
+                throw new Error('PALETTE COLOR image is missing its lookup table descriptors');
+            }
+            const descriptor = LookupTableReader.readDescriptor(dataSet, tags.descriptor, signed);
+            const { entries, bits } = descriptor;
+            firstMapped = descriptor.firstMapped;
+
+            let values: Uint16Array;
+            if (dataSet.elements[tags.data]) {
+                values = LookupTableReader.readData(dataSet, tags.data, entries, bits);
+            } else if (dataSet.elements[tags.segmented]) {
+                values = PaletteColorLUT.expandSegments(LookupTableReader.readWords(dataSet, tags.segmented), entries);
+            } else {
+                throw new Error('PALETTE COLOR image is missing its lookup table data');
+            }
+            return PaletteColorLUT.to8Bit(values, bits);
+        });
+
+        return new PaletteColorLUT(channels, firstMapped);
+    }
+
+    apply(indices: ArrayLike<number>, pixelCount: number): Uint8Array {
+        const [red, green, blue] = this.channels;
+        const last = red.length - 1;
+        const rgb = new Uint8Array(pixelCount * 3);
+        for (let i = 0; i < pixelCount; i++) {
+            // Values outside the table map to its first or last entry
+            let index = indices[i] - this.firstMapped;
+            index = index < 0 ? 0 : index > last ? last : index;
+            rgb[i * 3] = red[index];
+            rgb[i * 3 + 1] = green[index];
+            rgb[i * 3 + 2] = blue[index];
+        }
+        return rgb;
+    }
+
+    // Segmented tables (C.7.9.2) are a sequence of discrete (0), linear (1) and indirect (2) segments
+    private static expandSegments(words: Uint16Array, entries: number): Uint16Array {
+        const lut: number[] = [];
+        PaletteColorLUT.expandSegmentRange(words, 0, Number.MAX_SAFE_INTEGER, lut);
+        const values = new Uint16Array(entries);
+        for (let i = 0; i < entries; i++) {
+            values[i] = lut[Math.min(i, lut.length - 1)] || 0;
+        }
+        return values;
+    }
+
+    private static expandSegmentRange(words: Uint16Array, position: number, segmentCount: number, lut: number[]): void {
+        for (let segment = 0; segment < segmentCount && position + 1 < words.length; segment++) {
+            const segmentStart = position;
+            const opcode = words[position];
+            const length = words[position + 1];
+            position += 2;
+
+            if (opcode === 0) {
+                for (let i = 0; i < length; i++) {
+                    lut.push(words[position + i]);
+                }
+                position += length;
+            } else if (opcode === 1) {
+                // Linear ramp from the previous entry to the given end value
+                const start = lut.length ? lut[lut.length - 1] : 0;
+                const end = words[position++];
+                for (let i = 1; i <= length; i++) {
+                    lut.push(Math.round(start + (end - start) * i / length));
+                }
+            } else if (opcode === 2) {
+                // Replays `length` segments found at a byte offset split over two words, least significant first
+                const offset = words[position] + words[position + 1] * 0x10000;
+                position += 2;
+                // Only earlier segments can be replayed, which also rules out endless recursion
+                if (offset >> 1 >= segmentStart) {
+                    throw new Error('Indirect palette segment does not point to an earlier segment');
+                }
+                PaletteColorLUT.expandSegmentRange(words, offset >> 1, length, lut);
+            } else {
+                throw new Error(`Invalid segmented palette opcode: ${opcode}`);
+            }
+        }
+    }
+
+    private static to8Bit(values: Uint16Array, bits: number): Uint8Array {
+        // Some writers declare 16 bits but only use the low byte
+        let max = 0;
+        for (let i = 0; i < values.length; i++) {
+            max = Math.max(max, values[i]);
+        }
+        const shift = bits > 8 && max > 255 ? bits - 8 : 0;
+
+        const output = new Uint8Array(values.length);
+        for (let i = 0; i < values.length; i++) {
+            output[i] = Math.min(255, values[i] >> shift);
+        }
+        return output;
+    }
+}
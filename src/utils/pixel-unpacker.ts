@@ -0,0 +1,88 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+
+// Pixel module attributes that describe how a sample is packed (PS3.3 C.7.6.3.1)
+export interface PixelFormat {
+    bitsAllocated: number;
+    bitsStored: number;
+    highBit: number;
+    pixelRepresentation: number;    // 0 = unsigned, 1 = two's complement
+    samplesPerPixel: number;
+    littleEndian: boolean;
+}
+
+// Stored pixel values; unsigned 32-bit samples do not fit an Int32Array
+export type StoredPixels = Int32Array | Float64Array;
+
+export class PixelUnpacker {
+    static getPixelFormat(dataSet: dicomParser.DataSet): PixelFormat {
+        const bitsAllocated = dataSet.uint16(DicomTags.BitsAllocated) || 16;
+        const bitsStored = Math.min(dataSet.uint16(DicomTags.BitsStored) || bitsAllocated, bitsAllocated);
+        const highBit = dataSet.uint16(DicomTags.HighBit);
+        return {
+            bitsAllocated,
+            bitsStored,
+            // A high bit that would push the stored bits out of the allocated ones is ignored
+            highBit: highBit !== undefined && highBit >= bitsStored - 1 && highBit < bitsAllocated ? highBit : bitsStored - 1,
+            pixelRepresentation: dataSet.uint16(DicomTags.PixelRepresentation) || 0,
+            samplesPerPixel: dataSet.uint16(DicomTags.SamplesPerPixel) || 1,
+            littleEndian: dataSet.string(DicomTags.TransferSyntaxUID) !== '1.2.840.10008.1.2.2'
+        };
+    }
+
+    // Reads native (uncompressed) pixel data into stored values: each sample is read at its allocated
+    // size and byte order, shifted down so HighBit becomes the top stored bit, masked and sign-extended
+    static unpack(bytes: Uint8Array, sampleCount: number, format: PixelFormat): StoredPixels {
+        const { bitsAllocated, littleEndian } = format;
+        if (bitsAllocated !== 8 && bitsAllocated !== 16 && bitsAllocated !== 32) {
+            throw new Error(`Unsupported bits allocated: ${bitsAllocated}`);
+        }
+
+        const bytesPerSample = bitsAllocated / 8;
+        const count = Math.min(sampleCount, Math.floor(bytes.length / bytesPerSample));
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const output = PixelUnpacker.allocate(sampleCount, format);
+        const divisor = Math.pow(2, format.highBit + 1 - format.bitsStored);
+        const range = Math.pow(2, format.bitsStored);
+        const signed = format.pixelRepresentation === 1;
+
+        for (let i = 0; i < count; i++) {
+            let raw: number;
+            if (bitsAllocated === 8) {
+                raw = bytes[i];
+            } else if (bitsAllocated === 16) {
+                raw = view.getUint16(i * 2, littleEndian);
+            } else {
+                raw = view.getUint32(i * 4, littleEndian);
+            }
+            output[i] = PixelUnpacker.toStoredValue(divisor === 1 ? raw : Math.floor(raw / divisor), range, signed);
+        }
+        return output;
+    }
+
+    // Codec output already holds the stored bits in the low end of each sample
+    static fromDecoded(samples: ArrayLike<number>, format: PixelFormat): StoredPixels {
+        const output = PixelUnpacker.allocate(samples.length, format);
+        const range = Math.pow(2, format.bitsStored);
+        const signed = format.pixelRepresentation === 1;
+        for (let i = 0; i < samples.length; i++) {
+            output[i] = PixelUnpacker.toStoredValue(samples[i], range, signed);
+        }
+        return output;
+    }
+
+    private static allocate(sampleCount: number, format: PixelFormat): StoredPixels {
+        return format.bitsStored === 32 && format.pixelRepresentation === 0
+            ? new Float64Array(sampleCount)
+            : new Int32Array(sampleCount);
+    }
+
+    // Arithmetic instead of bitwise operators so 32-bit samples are not truncated to signed integers
+    private static toStoredValue(raw: number, range: number, signed: boolean): number {
+        const value = raw % range;
+        if (signed && value >= range / 2) {
+            return value - range;
+        }
+        return value;
+    }
+}
@@ -0,0 +1,86 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+
+// Orders the images of a series by their place in the patient rather than by file name
+export class SliceOrder {
+    // Sorts by position along the slice normal (Image Position projected on the Image Orientation normal),
+    // falling back to Slice Location and then Instance Number when any image lacks the attributes.
+    // Ties are broken by Instance Number, then by the original order.
+    static sort<T>(items: T[], getDataSet: (item: T) => dicomParser.DataSet): T[] {
+        const entries = items.map((item, index) => {
+            const dataSet = getDataSet(item);
+            return { item, index, dataSet, instance: SliceOrder.readNumber(dataSet, DicomTags.InstanceNumber) };
+        });
+        if (entries.length < 2) {
+            return items.slice();
+        }
+
+        let positions: (number | undefined)[] = [];
+        const normal = SliceOrder.getSliceNormal(entries[0].dataSet);
+        if (normal) {
+            positions = entries.map(entry => SliceOrder.getProjectedPosition(entry.dataSet, normal));
+        }
+        if (!normal || positions.some(position => position === undefined)) {
+            positions = entries.map(entry => SliceOrder.readNumber(entry.dataSet, DicomTags.SliceLocation));
+        }
+        if (positions.some(position => position === undefined)) {
+            positions = entries.map(() => 0);
+        }
+
+        return entries
+            .map((entry, i) => ({ ...entry, position: positions[i] as number }))
+            .sort((a, b) => (a.position - b.position)
+                || ((a.instance ?? Infinity) - (b.instance ?? Infinity) || 0)
+                || (a.index - b.index))
+            .map(entry => entry.item);
+    }
+
+    // Position along the slice's own normal, or its Slice Location, in millimeters
+    static getSlicePosition(dataSet: dicomParser.DataSet): number | undefined {
+        const normal = SliceOrder.getSliceNormal(dataSet);
+        return (normal && SliceOrder.getProjectedPosition(dataSet, normal))
+            ?? SliceOrder.readNumber(dataSet, DicomTags.SliceLocation);
+    }
+
+    // 1-based place in the sorted series, zero-padded so file names sort like the slices
+    static getSliceName(index: number, count: number): string {
+        return String(index + 1).padStart(Math.max(4, String(count).length), '0');
+    }
+
+    // Cross product of the row and column direction cosines
+    static getSliceNormal(dataSet: dicomParser.DataSet): [number, number, number] | undefined {
+        const cosines = SliceOrder.readVector(dataSet, DicomTags.ImageOrientationPatient, 6);
+        if (!cosines) {
+            return undefined;
+        }
+        const [rx, ry, rz, cx, cy, cz] = cosines;
+        const normal: [number, number, number] = [ry * cz - rz * cy, rz * cx - rx * cz, rx * cy - ry * cx];
+        return normal.some(value => value !== 0) ? normal : undefined;
+    }
+
+    // Image Position projected on the slice normal, in millimeters
+    static getProjectedPosition(dataSet: dicomParser.DataSet, normal: [number, number, number]): number | undefined {
+        const position = SliceOrder.readVector(dataSet, DicomTags.ImagePositionPatient, 3);
+        return position && position[0] * normal[0] + position[1] * normal[1] + position[2] * normal[2];
+    }
+
+    private static readVector(dataSet: dicomParser.DataSet, tag: string, length: number): number[] | undefined {
+        const values: number[] = [];
+        for (let i = 0; i < length; i++) {
+            const value = SliceOrder.readNumber(dataSet, tag, i);
+            if (value === undefined) {
+                return undefined;
+            }
+            values.push(value);
+        }
+        return values;
+    }
+
+    private static readNumber(dataSet: dicomParser.DataSet, tag: string, index = 0): number | undefined {
+        if (!dataSet.elements[tag]) {
+            return undefined;
+        }
+        const value = dataSet.floatString(tag, index);
+        return value !== undefined && isFinite(value) ? value : undefined;
+    }
+}
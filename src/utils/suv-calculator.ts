@@ -0,0 +1,78 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Standardized uptake values normalized to body weight (SUVbw) of PET images: the activity concentration
+// times the patient's weight, divided by the injected dose decayed to the time the activity refers to
+export class SUVCalculator {
+    // Factor turning the image's modality values (Bq/ml) into SUVbw, or undefined when the file lacks something
+    // the calculation needs
+    static getSUVFactor(dataSet: dicomParser.DataSet): number | undefined {
+        if ((dataSet.string(DicomTags.Modality) || '').trim().toUpperCase() !== 'PT'
+            || (dataSet.string(DicomTags.Units) || '').trim().toUpperCase() !== 'BQML') {
+            return undefined;
+        }
+
+        const weight = dataSet.floatString(DicomTags.PatientWeight);
+        const radiopharmaceutical = dataSet.elements[DicomTags.RadiopharmaceuticalInformationSequence]?.items?.[0]?.dataSet;
+        if (!weight || !(weight > 0) || !radiopharmaceutical) {
+            return undefined;
+        }
+        const dose = radiopharmaceutical.floatString(DicomTags.RadionuclideTotalDose);
+        const halfLife = radiopharmaceutical.floatString(DicomTags.RadionuclideHalfLife);
+        if (!dose || !(dose > 0) || !halfLife || !(halfLife > 0)) {
+            return undefined;
+        }
+
+        const decayedDose = SUVCalculator.getDecayedDose(dataSet, radiopharmaceutical, dose, halfLife);
+        // Weight in grams, so a uniform distribution in tissue of water density gives an SUV of 1
+        return decayedDose ? weight * 1000 / decayedDose : undefined;
+    }
+
+    // The dose at the time the image's activity is decay corrected to: the injection itself (ADMIN), the start of
+    // the series (START) or, for images without decay correction, their acquisition (NONE)
+    private static getDecayedDose(dataSet: dicomParser.DataSet, radiopharmaceutical: dicomParser.DataSet, dose: number, halfLife: number): number | undefined {
+        const correction = (dataSet.string(DicomTags.DecayCorrection) || '').trim().toUpperCase();
+        if (correction === 'ADMIN') {
+            return dose;
+        }
+
+        const seriesDate = dataSet.string(DicomTags.SeriesDate) || dataSet.string(DicomTags.StudyDate);
+        let referenceTime: number | undefined;
+        if (correction === 'START') {
+            referenceTime = SUVCalculator.getTime(seriesDate, dataSet.string(DicomTags.SeriesTime));
+        } else if (correction === 'NONE') {
+            referenceTime = SUVCalculator.getTime(dataSet.string(DicomTags.AcquisitionDate) || seriesDate,
+                dataSet.string(DicomTags.AcquisitionTime));
+        }
+
+        const startDateTime = (radiopharmaceutical.string(DicomTags.RadiopharmaceuticalStartDateTime) || '').trim();
+        const injectionTime = startDateTime
+            ? SUVCalculator.getTime(startDateTime.substring(0, 8), startDateTime.substring(8))
+            : SUVCalculator.getTime(seriesDate, radiopharmaceutical.string(DicomTags.RadiopharmaceuticalStartTime));
+        if (referenceTime === undefined || injectionTime === undefined) {
+            return undefined;
+        }
+
+        let elapsed = referenceTime - injectionTime;
+        // With only a time of day, an injection shortly before midnight seems to follow a scan after it
+        if (!startDateTime && elapsed < 0) {
+            elapsed += SECONDS_PER_DAY;
+        }
+        return elapsed >= 0 ? dose * Math.pow(2, -elapsed / halfLife) : undefined;
+    }
+
+    // Seconds since 1970 of a DA date and TM time (HHMMSS.FFFFFF, or the older HH:MM:SS); any UTC offset is
+    // ignored since both times of the calculation share it
+    private static getTime(date: string | undefined, time: string | undefined): number | undefined {
+        const dateDigits = (date || '').replace(/[^0-9]/g, '');
+        const match = /^(\d{2})(\d{2})?(\d{2})?(\.\d+)?/.exec((time || '').trim().replace(/:/g, ''));
+        if (dateDigits.length !== 8 || !match) {
+            return undefined;
+        }
+        const days = Date.UTC(Number(dateDigits.substring(0, 4)), Number(dateDigits.substring(4, 6)) - 1,
+            Number(dateDigits.substring(6, 8))) / 1000;
+        return days + Number(match[1]) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0) + Number(match[4] || 0);
+    }
+}
@@ -4,7 +4,21 @@ export interface ImageConverter {
     args: string[];
 }
 
+// Transfer syntaxes decoded in-process by the codecs in src/codecs
+const nativeConverter: ImageConverter = {
+    utility: 'native',
+    outputFormat: 'raw',
+    args: []
+};
+
 export const TransferSyntaxMap = new Map<string, ImageConverter>([
+    ['1.2.840.10008.1.2.4.50', nativeConverter],  // JPEG Baseline (Process 1)
+    ['1.2.840.10008.1.2.4.51', nativeConverter],  // JPEG Extended (Process 2 & 4)
+    ['1.2.840.10008.1.2.4.57', nativeConverter],  // JPEG Lossless (Process 14)
+    ['1.2.840.10008.1.2.4.70', nativeConverter],  // JPEG Lossless SV1
+    ['1.2.840.10008.1.2.4.80', nativeConverter],  // JPEG-LS Lossless
+    ['1.2.840.10008.1.2.4.81', nativeConverter],  // JPEG-LS Near-Lossless
+    ['1.2.840.10008.1.2.5', nativeConverter],     // RLE Lossless
     // JPEG 2000 Part 1
     ['1.2.840.10008.1.2.4.90', {
         utility: 'opj_decompress',
@@ -19,6 +33,10 @@ export const TransferSyntaxMap = new Map<string, ImageConverter>([
     }]
 ]);
 
+export function isNativeTransferSyntax(transferSyntaxUID: string): boolean {
+    return TransferSyntaxMap.get(transferSyntaxUID)?.utility === 'native';
+}
+
 export function getDicomConverter(transferSyntaxUID: string): ImageConverter {
     return TransferSyntaxMap.get(transferSyntaxUID) || TransferSyntaxMap.get('default')!;
 }
\ No newline at end of file
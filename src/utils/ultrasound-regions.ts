@@ -0,0 +1,117 @@
+import dicomParser from 'dicom-parser';
+import { DicomTags } from '../models/dicom-tags';
+
+// One item of the Sequence of Ultrasound Regions (PS3.3 C.8.5.5)
+export interface UltrasoundRegion {
+    spatialFormat: number;
+    dataType: number;
+    minX: number;               // Inclusive pixel bounds of the region in the image
+    minY: number;
+    maxX: number;
+    maxY: number;
+    referenceX?: number;        // Reference pixel, relative to the region's top-left pixel
+    referenceY?: number;
+    referenceValueX?: number;   // Physical value at the reference pixel
+    referenceValueY?: number;
+    unitsX: number;
+    unitsY: number;
+    deltaX: number;             // Physical size of one pixel, in the units above
+    deltaY: number;
+}
+
+// Part of an image, in pixels from its top-left corner
+export interface CropBounds {
+    x: number;
+    y: number;
+    columns: number;
+    rows: number;
+}
+
+const SPATIAL_FORMATS = ['None', '2D', 'M-Mode', 'Spectral', 'Waveform', 'Graphics'];
+const DATA_TYPES = ['None', 'Tissue', 'Color Flow', 'PW Spectral Doppler', 'CW Spectral Doppler', 'Doppler Mean Trace',
+    'Doppler Mode Trace', 'Doppler Max Trace', 'Volume Trace', 'Volume Rate Trace', 'ECG Trace', 'Pulse Trace',
+    'Phonocardiogram Trace', 'Gray Bar', 'Color Bar', 'Integrated Backscatter', 'Area Trace', 'Area Rate Trace',
+    'Other Physiological Input'];
+const UNITS = ['none', 'percent', 'dB', 'cm', 'seconds', 'hertz', 'dB/seconds', 'cm/sec', 'cm2', 'cm2/sec', 'cm3',
+    'cm3/sec', 'degrees'];
+
+// Scan areas of an ultrasound image and their physical calibration, which lets exports drop the vendor's user
+// interface around them
+export class UltrasoundRegions {
+    static read(dataSet: dicomParser.DataSet): UltrasoundRegion[] {
+        const items = dataSet.elements[DicomTags.SequenceOfUltrasoundRegions]?.items || [];
+        const regions: UltrasoundRegion[] = [];
+        for (const item of items) {
+            const region = item.dataSet;
+            if (!region) {
+                continue;
+            }
+            const minX = region.uint32(DicomTags.RegionLocationMinX0);
+            const minY = region.uint32(DicomTags.RegionLocationMinY0);
+            const maxX = region.uint32(DicomTags.RegionLocationMaxX1);
+            const maxY = region.uint32(DicomTags.RegionLocationMaxY1);
+            if (minX === undefined || minY === undefined || maxX === undefined || maxY === undefined || maxX < minX || maxY < minY) {
+                continue;
+            }
+
+            const has = (tag: string) => !!region.elements[tag];
+            regions.push({
+                spatialFormat: region.uint16(DicomTags.RegionSpatialFormat) || 0,
+                dataType: region.uint16(DicomTags.RegionDataType) || 0,
+                minX,
+                minY,
+                maxX,
+                maxY,
+                referenceX: has(DicomTags.ReferencePixelX0) ? region.int32(DicomTags.ReferencePixelX0) : undefined,
+                referenceY: has(DicomTags.ReferencePixelY0) ? region.int32(DicomTags.ReferencePixelY0) : undefined,
+                referenceValueX: has(DicomTags.ReferencePixelPhysicalValueX) ? region.double(DicomTags.ReferencePixelPhysicalValueX) : undefined,
+                referenceValueY: has(DicomTags.ReferencePixelPhysicalValueY) ? region.double(DicomTags.ReferencePixelPhysicalValueY) : undefined,
+                unitsX: region.uint16(DicomTags.PhysicalUnitsXDirection) || 0,
+                unitsY: region.uint16(DicomTags.PhysicalUnitsYDirection) || 0,
+                deltaX: region.double(DicomTags.PhysicalDeltaX) || 0,
+                deltaY: region.double(DicomTags.PhysicalDeltaY) || 0
+            });
+        }
+        return regions;
+    }
+
+    // Smallest part of the image holding every region, color and gray bars included since they are needed to
+    // read the scan. Undefined when there are no regions or they cover the whole image.
+    static getCropBounds(regions: UltrasoundRegion[], columns: number, rows: number): CropBounds | undefined {
+        if (regions.length === 0) {
+            return undefined;
+        }
+        const left = Math.max(0, Math.min(...regions.map(region => region.minX)));
+        const top = Math.max(0, Math.min(...regions.map(region => region.minY)));
+        const right = Math.min(columns - 1, Math.max(...regions.map(region => region.maxX)));
+        const bottom = Math.min(rows - 1, Math.max(...regions.map(region => region.maxY)));
+        if (right < left || bottom < top || (left === 0 && top === 0 && right === columns - 1 && bottom === rows - 1)) {
+            return undefined;
+        }
+        return { x: left, y: top, columns: right - left + 1, rows: bottom - top + 1 };
+    }
+
+    // Copies the bounded part of interleaved samples into the given array
+    static crop<T extends Uint8Array | Float64Array>(samples: ArrayLike<number>, columns: number, channels: number, bounds: CropBounds, target: T): T {
+        for (let y = 0; y < bounds.rows; y++) {
+            const source = ((bounds.y + y) * columns + bounds.x) * channels;
+            const offset = y * bounds.columns * channels;
+            for (let i = 0; i < bounds.columns * channels; i++) {
+                target[offset + i] = samples[source + i];
+            }
+        }
+        return target;
+    }
+
+    static getSpatialFormatName(code: number): string {
+        return SPATIAL_FORMATS[code] || `Unknown (${code})`;
+    }
+
+    static getDataTypeName(code: number): string {
+        return DATA_TYPES[code] || `Unknown (${code})`;
+    }
+
+    static getUnitName(code: number): string {
+        return UNITS[code] || `Unknown (${code})`;
+    }
+}
@@ -0,0 +1,204 @@
+import { Volume } from '../models/types';
+import { MultiplanarReformat, ReformatImage } from './multiplanar-reformat';
+
+export type ProjectionMode = 'mip' | 'minip' | 'average';
+export type ProjectionAxis = 'axial' | 'coronal' | 'sagittal';
+
+// Largest number of voxels along any axis of the volume the rotating MIP is computed from
+const ROTATION_SIZE = 192;
+
+// Intensity projections of a volume: whole-volume projections, thick slabs and a rotating MIP
+export class VolumeProjection {
+    static readonly MODES: ProjectionMode[] = ['mip', 'minip', 'average'];
+    static readonly AXES: ProjectionAxis[] = ['axial', 'coronal', 'sagittal'];
+    // Folders next to Images for the whole-volume projections and the thick-slab MIPs
+    static readonly PROJECTIONS_FOLDER = 'Projections';
+    static readonly SLAB_FOLDER = 'Slab MIP';
+
+    static getModeName(mode: ProjectionMode): string {
+        return mode === 'mip' ? 'MIP' : mode === 'minip' ? 'MinIP' : 'Average';
+    }
+
+    // Projection of the whole volume along the slice normal (axial), front to back (coronal) or side to side
+    // (sagittal). Coronal and sagittal projections have square pixels and the most superior slice at the top.
+    static project(volume: Volume, axis: ProjectionAxis, mode: ProjectionMode): ReformatImage {
+        const { columns, rows, slices } = volume;
+        const sliceLength = columns * rows;
+        const combine = VolumeProjection.getCombiner(mode);
+
+        if (axis === 'axial') {
+            const values = VolumeProjection.combineSlices(volume, 0, slices, mode);
+            return { columns, rows, values, pixelSpacing: volume.columnSpacing };
+        }
+
+        const coronal = axis === 'coronal';
+        const width = coronal ? columns : rows;
+        const depth = coronal ? rows : columns;
+        const sliceRows = new Float32Array(width * slices).fill(VolumeProjection.getInitialValue(mode));
+        for (let slice = 0; slice < slices; slice++) {
+            const sliceOffset = slice * sliceLength;
+            for (let y = 0; y < rows; y++) {
+                for (let x = 0; x < columns; x++) {
+                    const target = slice * width + (coronal ? x : y);
+                    sliceRows[target] = combine(sliceRows[target], volume.values[sliceOffset + y * columns + x]);
+                }
+            }
+        }
+        if (mode === 'average') {
+            for (let i = 0; i < sliceRows.length; i++) {
+                sliceRows[i] /= depth;
+            }
+        }
+        return MultiplanarReformat.resampleSlices(sliceRows, width, volume, coronal ? volume.columnSpacing : volume.rowSpacing);
+    }
+
+    // Slabs of the given thickness in millimeters along the slice axis, each starting half a slab after the
+    // previous one so structures crossing a slab boundary are still seen whole
+    static getSlabs(volume: Volume, thickness: number): { start: number; count: number }[] {
+        const count = Math.min(volume.slices, Math.max(1, Math.round(thickness / volume.sliceSpacing)));
+        const step = Math.max(1, Math.round(count / 2));
+        const slabs: { start: number; count: number }[] = [];
+        for (let start = 0; ; start += step) {
+            slabs.push({ start, count: Math.min(count, volume.slices - start) });
+            if (start + count >= volume.slices) {
+                return slabs;
+            }
+        }
+    }
+
+    // Maximum intensity projection of a slab of consecutive slices, in the axial plane
+    static slabMIP(volume: Volume, slab: { start: number; count: number }): ReformatImage {
+        return {
+            columns: volume.columns,
+            rows: volume.rows,
+            values: VolumeProjection.combineSlices(volume, slab.start, slab.count, 'mip'),
+            pixelSpacing: volume.columnSpacing
+        };
+    }
+
+    // MIPs of the volume seen from angles evenly spread around the patient's long axis, starting from the
+    // front. The volume is first reduced by taking the maximum of neighbouring voxels, which keeps thin bright
+    // structures such as vessels, and each view is built by projecting every voxel onto the rotated image row.
+    static rotatingMIP(volume: Volume, frameCount: number): ReformatImage[] {
+        const reduced = VolumeProjection.reduce(volume);
+        const { columns, rows, slices, columnSpacing, rowSpacing } = reduced;
+        const sliceLength = columns * rows;
+        const binSize = Math.max(columnSpacing, rowSpacing);
+        const width = Math.ceil(Math.hypot(columns * columnSpacing, rows * rowSpacing) / binSize) + 1;
+
+        // Voxel coordinates relative to the center of the slice, in millimeters
+        const xs = Float32Array.from({ length: columns }, (_, x) => (x - (columns - 1) / 2) * columnSpacing);
+        const ys = Float32Array.from({ length: rows }, (_, y) => (y - (rows - 1) / 2) * rowSpacing);
+
+        // Bins outside the rotated volume show its lowest value
+        const background = VolumeProjection.getMinimum(reduced.values);
+        const frames: ReformatImage[] = [];
+        for (let frame = 0; frame < frameCount; frame++) {
+            const angle = 2 * Math.PI * frame / frameCount;
+            const cos = Math.cos(angle) / binSize;
+            const sin = Math.sin(angle) / binSize;
+            const sliceRows = new Float32Array(width * slices).fill(-Infinity);
+            for (let slice = 0; slice < slices; slice++) {
+                const rowOffset = slice * width + width / 2;
+                for (let y = 0; y < rows; y++) {
+                    const voxelOffset = slice * sliceLength + y * columns;
+                    const ySin = ys[y] * sin;
+                    for (let x = 0; x < columns; x++) {
+                        const target = Math.floor(rowOffset + xs[x] * cos + ySin);
+                        const value = reduced.values[voxelOffset + x];
+                        if (value > sliceRows[target]) {
+                            sliceRows[target] = value;
+                        }
+                    }
+                }
+            }
+            for (let i = 0; i < sliceRows.length; i++) {
+                if (sliceRows[i] === -Infinity) {
+                    sliceRows[i] = background;
+                }
+            }
+            frames.push(MultiplanarReformat.resampleSlices(sliceRows, width, reduced, binSize));
+        }
+        return frames;
+    }
+
+    // Combines the given run of slices voxel by voxel into one axial image
+    private static combineSlices(volume: Volume, start: number, count: number, mode: ProjectionMode): Float32Array {
+        const sliceLength = volume.columns * volume.rows;
+        const combine = VolumeProjection.getCombiner(mode);
+        const values = new Float32Array(sliceLength).fill(VolumeProjection.getInitialValue(mode));
+        for (let slice = start; slice < start + count; slice++) {
+            const sliceOffset = slice * sliceLength;
+            for (let i = 0; i < sliceLength; i++) {
+                values[i] = combine(values[i], volume.values[sliceOffset + i]);
+            }
+        }
+        if (mode === 'average') {
+            for (let i = 0; i < sliceLength; i++) {
+                values[i] /= count;
+            }
+        }
+        return values;
+    }
+
+    // Maximum over blocks of voxels, so no axis has more than ROTATION_SIZE voxels
+    private static reduce(volume: Volume): Volume {
+        const inPlane = Math.max(1, Math.ceil(Math.max(volume.columns, volume.rows) / ROTATION_SIZE));
+        const alongSlices = Math.max(1, Math.ceil(volume.slices / ROTATION_SIZE));
+        if (inPlane === 1 && alongSlices === 1) {
+            return volume;
+        }
+
+        const columns = Math.ceil(volume.columns / inPlane);
+        const rows = Math.ceil(volume.rows / inPlane);
+        const slices = Math.ceil(volume.slices / alongSlices);
+        const values = new Float32Array(columns * rows * slices).fill(-Infinity);
+        for (let slice = 0; slice < volume.slices; slice++) {
+            const targetSlice = Math.floor(slice / alongSlices) * columns * rows;
+            for (let y = 0; y < volume.rows; y++) {
+                const targetRow = targetSlice + Math.floor(y / inPlane) * columns;
+                const sourceRow = (slice * volume.rows + y) * volume.columns;
+                for (let x = 0; x < volume.columns; x++) {
+                    const target = targetRow + Math.floor(x / inPlane);
+                    const value = volume.values[sourceRow + x];
+                    if (value > values[target]) {
+                        values[target] = value;
+                    }
+                }
+            }
+        }
+        return {
+            ...volume,
+            columns,
+            rows,
+            slices,
+            values,
+            columnSpacing: volume.columnSpacing * inPlane,
+            rowSpacing: volume.rowSpacing * inPlane,
+            sliceSpacing: volume.sliceSpacing * alongSlices
+        };
+    }
+
+    private static getCombiner(mode: ProjectionMode): (accumulated: number, value: number) => number {
+        switch (mode) {
+            case 'mip':
+                return (accumulated, value) => value > accumulated ? value : accumulated;
+            case 'minip':
+                return (accumulated, value) => value < accumulated ? value : accumulated;
+            default:
+                return (accumulated, value) => accumulated + value;
+        }
+    }
+
+    private static getInitialValue(mode: ProjectionMode): number {
+        return mode === 'mip' ? -Infinity : mode === 'minip' ? Infinity : 0;
+    }
+
+    private static getMinimum(values: Float32Array): number {
+        let minimum = Infinity;
+        for (let i = 0; i < values.length; i++) {
+            minimum = Math.min(minimum, values[i]);
+        }
+        return minimum;
+    }
+}